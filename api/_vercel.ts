@@ -0,0 +1,46 @@
+import type { IncomingMessage, ServerResponse } from 'node:http';
+import type { CoreHandler, CoreResponse } from '../core/http';
+
+// Vercel Node 运行时在 Node 的 req/res 上补的字段（只列用到的）
+type VercelRequest = IncomingMessage & { query?: Record<string, unknown>; body?: unknown };
+type VercelResponse = ServerResponse & {
+  status(code: number): VercelResponse;
+  json(body: unknown): VercelResponse;
+  send(body: unknown): VercelResponse;
+};
+
+// Vercel 适配：req/res 转成 core 的请求/响应（下划线开头的文件不会被 Vercel 当成接口）
+export function toVercel(handler: CoreHandler) {
+  return async (req: VercelRequest, res: VercelResponse) => {
+    // 客户端断开（响应还没写完就关了）时通知 handler 停下，也不再往已关闭的连接上写
+    const closed = new AbortController();
+    res.on('close', () => {
+      if (!res.writableEnded) closed.abort();
+    });
+    let out: CoreResponse | undefined;
+    try {
+      out = await handler({ method: String(req.method), query: req.query || {}, body: req.body, signal: closed.signal });
+      for (const [k, v] of Object.entries(out.headers || {})) res.setHeader(k, v);
+      if (out.binary) return res.status(out.status).send(Buffer.from(out.binary));
+      if (out.stream) {
+        res.status(out.status);
+        for await (const chunk of out.stream) {
+          if (closed.signal.aborted) break;
+          res.write(chunk);
+        }
+        return res.end();
+      }
+      return res.status(out.status).json(out.json);
+    } catch (err) {
+      if (closed.signal.aborted) return res.end();
+      console.error(err);
+      // 流写到一半出错：状态码和表头已定，补一段结束事件再收尾，别留半截响应
+      if (out?.stream) {
+        if (out.streamError) res.write(out.streamError(err));
+        return res.end();
+      }
+      if (res.headersSent) return res.end();
+      return res.status(500).json({ error: 'server_error', message: err instanceof Error ? err.message : 'unknown' });
+    }
+  };
+}
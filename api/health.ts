@@ -1,5 +1,4 @@
-export default function handler(_req: any, res: any) {
-  res.status(200).json({ ok: true });
-}
-
+import { handleHealth } from '../core/routes';
+import { toVercel } from './_vercel';
 
+export default toVercel(handleHealth);
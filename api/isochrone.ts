@@ -0,0 +1,4 @@
+import { handleIsochrone } from '../core/routes';
+import { toVercel } from './_vercel';
+
+export default toVercel(handleIsochrone);
@@ -0,0 +1,4 @@
+import { handleRecommendStream } from '../core/recommendStream';
+import { toVercel } from './_vercel';
+
+export default toVercel(handleRecommendStream);
@@ -0,0 +1,270 @@
+import type { MapPlace, MapPoi, MapProvider, MapRoute } from './mapProvider';
+import type { MatrixCell, TravelMatrix } from './travelMatrix';
+import { upstream } from './upstream';
+import { normalizeWeather, type AmapWeatherResponse } from './weather';
+
+// 高德 WebService 实现：所有 restapi.amap.com 的请求都在这里，Key 只在这里拼进参数
+const BASE = 'https://restapi.amap.com';
+const AMAP_MAX_ORIGINS = 100;
+const WEATHER_TTL_MS = 20 * 60 * 1000;
+// 同一起点一次请求里会被公交（citycode）和天气（adcode）各用一次
+const REGEO_TTL_MS = 10 * 60 * 1000;
+const regeoCache = new Map<string, { value: MapPlace; expiresAt: number }>();
+const weatherCache = new Map<string, { value: AmapWeatherResponse | null; expiresAt: number }>();
+
+// 高德原始返回：只声明用到的字段。数字也是字符串，空字段给 [] 而不是空字符串，所以值一律当 unknown 读
+type AmapPoi = {
+  id?: unknown;
+  name?: unknown;
+  type?: unknown;
+  typecode?: unknown;
+  address?: unknown;
+  pname?: unknown;
+  location?: unknown;
+  distance?: unknown;
+  tel?: unknown;
+  photos?: Array<{ url?: unknown }>;
+  biz_ext?: { opentime2?: unknown; open_time?: unknown; rating?: unknown; cost?: unknown };
+};
+type AmapPlaceResponse = { status?: string; info?: string; pois?: AmapPoi[] };
+type AmapStep = { polyline?: unknown };
+type AmapPath = { duration?: unknown; polyline?: unknown; steps?: AmapStep[] };
+type AmapTransit = {
+  duration?: unknown;
+  segments?: Array<{
+    walking?: { duration?: unknown; steps?: AmapStep[] };
+    bus?: { buslines?: Array<{ name?: unknown; polyline?: unknown; via_num?: unknown }> };
+  }>;
+};
+// 步行/驾车/公交在 route 下，骑行（v4）在 data 下
+type AmapRouteResponse = { route?: { paths?: AmapPath[]; transits?: AmapTransit[] }; data?: { paths?: AmapPath[] } };
+type AmapDistanceResponse = {
+  status?: string;
+  info?: string;
+  results?: Array<{ origin_id?: unknown; distance?: unknown; duration?: unknown }>;
+};
+type AmapRegeoResponse = {
+  status?: string;
+  regeocode?: { addressComponent?: { adcode?: unknown; citycode?: unknown; city?: unknown } };
+};
+
+// 高德对空字段返回 [] 而不是空字符串
+function amapText(v: unknown): string {
+  return typeof v === 'string' ? v.trim() : '';
+}
+
+function amapNumber(v: unknown): number | undefined {
+  const n = Number(amapText(v));
+  return amapText(v) && Number.isFinite(n) && n > 0 ? n : undefined;
+}
+
+function toPoi(p: AmapPoi, keywords: string): MapPoi | null {
+  if (!p?.location || !p?.name) return null;
+  return {
+    id: String(p.id || `${keywords}:${p.location}:${p.name}`),
+    name: String(p.name),
+    // 这里用高德返回的 type 作为真实类别；keywords 只是“搜索词”
+    category: String(p.type || keywords),
+    typecode: amapText(p.typecode) || undefined,
+    address: String(p.address || p.pname || '宜昌'),
+    location: String(p.location),
+    distanceMeter: Number(p.distance || 0) || undefined,
+    openTime: amapText(p.biz_ext?.opentime2) || amapText(p.biz_ext?.open_time) || undefined,
+    rating: amapNumber(p.biz_ext?.rating),
+    costPerPerson: amapNumber(p.biz_ext?.cost),
+    tel: amapText(p.tel) || undefined,
+    photoUrl: Array.isArray(p.photos) ? amapText(p.photos[0]?.url) || undefined : undefined,
+  };
+}
+
+function parseRoute(type: 'walk' | 'bike' | 'drive' | 'transit', raw: AmapRouteResponse | undefined): MapRoute {
+  if (type === 'transit') {
+    // 一个公交方案 = 若干 segment；每段可能有“步行换乘” + “一条公交/地铁线路”
+    const transit = raw?.route?.transits?.[0];
+    const duration = Number(transit?.duration || 0);
+    const segments = Array.isArray(transit?.segments) ? transit.segments : [];
+    const polylines: string[] = [];
+    const summary: string[] = [];
+    let walkSec = 0;
+    let walkMaxSec = 0;
+    for (const seg of segments) {
+      const walkSteps = Array.isArray(seg?.walking?.steps) ? seg.walking.steps : [];
+      polylines.push(...walkSteps.map((s) => amapText(s?.polyline)).filter(Boolean));
+      const segWalkSec = Number(seg?.walking?.duration || 0);
+      walkSec += segWalkSec;
+      walkMaxSec = Math.max(walkMaxSec, segWalkSec);
+      const walkMin = Math.round(segWalkSec / 60);
+      if (walkMin > 0) summary.push(`步行${walkMin}分`);
+      const line = Array.isArray(seg?.bus?.buslines) ? seg.bus.buslines[0] : null;
+      if (line?.polyline) polylines.push(String(line.polyline));
+      if (line?.name) {
+        const stops = Number(line.via_num || 0) + 1;
+        summary.push(`${String(line.name).split('(')[0]}（${stops}站）`);
+      }
+    }
+    return { mode: type, durationSec: duration, polyline: polylines.join(';'), summary: summary.join(' → '), walkSec, walkMaxSec };
+  }
+
+  if (type === 'bike') {
+    const path = raw?.data?.paths?.[0];
+    return { mode: type, durationSec: Number(path?.duration || 0), polyline: String(path?.polyline || ''), walkSec: 0, walkMaxSec: 0 };
+  }
+
+  const path = raw?.route?.paths?.[0];
+  const duration = Number(path?.duration || 0);
+  const steps = Array.isArray(path?.steps) ? path.steps : [];
+  const polyline = steps.map((s) => amapText(s?.polyline)).filter(Boolean).join(';');
+  const walkSec = type === 'walk' ? duration : 0;
+  return { mode: type, durationSec: duration, polyline, walkSec, walkMaxSec: walkSec };
+}
+
+// 批量“多起点 → 一个终点”，一次最多 100 个起点
+function amapTravelMatrix(key: string, signal?: AbortSignal): TravelMatrix {
+  return async ({ basis, origins, destination }) => {
+    const cells: MatrixCell[] = origins.map(() => null);
+    if (!origins.length) return cells;
+    const resp = await upstream.get<AmapDistanceResponse>(`${BASE}/v3/distance`, {
+      params: {
+        key,
+        origins: origins.slice(0, AMAP_MAX_ORIGINS).join('|'),
+        destination,
+        // 1=驾车路网，3=步行路网（高德步行只算 5km 内，超出的条目会带 info 报错）
+        type: basis === 'walk' ? 3 : 1,
+      },
+      timeout: 4500,
+      signal,
+    });
+    if (String(resp.data?.status) !== '1') throw new Error(`amap distance failed: ${resp.data?.info || 'unknown'}`);
+    const results = Array.isArray(resp.data?.results) ? resp.data.results : [];
+    for (const r of results) {
+      const idx = Number(r.origin_id) - 1;
+      const distanceM = Number(r.distance);
+      const durationSec = Number(r.duration);
+      if (idx < 0 || idx >= cells.length || !Number.isFinite(distanceM) || !Number.isFinite(durationSec)) continue;
+      if (distanceM <= 0 && durationSec <= 0) continue;
+      cells[idx] = { distanceM, durationSec };
+    }
+    return cells;
+  };
+}
+
+// signal：请求方断开时中止还在路上的高德请求
+export function amapProvider(key: string, signal?: AbortSignal): MapProvider {
+  return {
+    name: 'amap',
+
+    async searchAround(params) {
+      const resp = await upstream.get<AmapPlaceResponse>(`${BASE}/v3/place/around`, {
+        params: {
+          key,
+          location: params.location,
+          keywords: params.keywords,
+          radius: params.radius,
+          sortrule: 'distance',
+          page_size: params.pageSize,
+          page: params.page,
+          ...(params.city ? { city: params.city, citylimit: true } : {}),
+          // all 才会带 biz_ext（营业时间/评分/人均）
+          extensions: 'all',
+        },
+        timeout: 8000,
+        signal,
+      });
+      const pois = Array.isArray(resp.data?.pois) ? resp.data.pois : [];
+      return pois.map((p) => toPoi(p, params.keywords)).filter((p) => p !== null);
+    },
+
+    async route(params) {
+      const baseParams = { key, origin: params.origin, destination: params.destination };
+
+      if (params.mode === 'walk') {
+        const resp = await upstream.get<AmapRouteResponse>(`${BASE}/v3/direction/walking`, { params: baseParams, timeout: 4500, signal });
+        return parseRoute('walk', resp.data);
+      }
+
+      if (params.mode === 'drive') {
+        const resp = await upstream.get<AmapRouteResponse>(`${BASE}/v3/direction/driving`, {
+          params: { ...baseParams, strategy: 0, extensions: 'base' },
+          timeout: 4500,
+          signal,
+        });
+        return parseRoute('drive', resp.data);
+      }
+
+      if (params.mode === 'transit') {
+        const city = params.city || '宜昌';
+        const resp = await upstream.get<AmapRouteResponse>(`${BASE}/v3/direction/transit/integrated`, {
+          params: {
+            ...baseParams,
+            city,
+            cityd: city,
+            // 3=最少步行：少走路/推车时宁可多坐两站
+            strategy: params.effort && params.effort !== 'normal' ? 3 : 0,
+            nightflag: 1,
+            extensions: 'base',
+            ...(params.departAt ? { date: params.departAt.date, time: params.departAt.hhmm } : {}),
+          },
+          timeout: 4500,
+          signal,
+        });
+        const transits = resp.data?.route?.transits;
+        if (Array.isArray(transits) && transits.length > 0) return parseRoute('transit', resp.data);
+        // 距离太近时高德不给公交方案（建议步行），直接按步行精算
+        const walkResp = await upstream.get<AmapRouteResponse>(`${BASE}/v3/direction/walking`, { params: baseParams, timeout: 4500, signal });
+        return parseRoute('walk', walkResp.data);
+      }
+
+      const resp = await upstream.get<AmapRouteResponse>(`${BASE}/v4/direction/bicycling`, { params: baseParams, timeout: 4500, signal });
+      return parseRoute('bike', resp.data);
+    },
+
+    async reverseGeocode(location) {
+      const hit = regeoCache.get(location);
+      if (hit && Date.now() < hit.expiresAt) return hit.value;
+      const resp = await upstream.get<AmapRegeoResponse>(`${BASE}/v3/geocode/regeo`, {
+        params: { key, location, radius: 1000, extensions: 'base' },
+        timeout: 8000,
+        signal,
+      });
+      if (String(resp.data?.status) !== '1') return null;
+      const comp = resp.data?.regeocode?.addressComponent;
+      // 高德在字段缺失时会返回 []，String([]) === ''
+      const place = { adcode: amapText(comp?.adcode), citycode: String(comp?.citycode || ''), city: String(comp?.city || '') };
+      regeoCache.set(location, { value: place, expiresAt: Date.now() + REGEO_TTL_MS });
+      return place;
+    },
+
+    async staticMap(params) {
+      const resp = await upstream.get<ArrayBuffer>(`${BASE}/v3/staticmap`, {
+        params: {
+          key,
+          location: params.center,
+          zoom: params.zoom,
+          size: params.size,
+          scale: 2,
+          markers: params.markers.map((m) => `mid,${m.color},${m.label}:${m.location}`).join('|'),
+        },
+        responseType: 'arraybuffer',
+        timeout: 8000,
+        signal,
+      });
+      return { contentType: 'image/png', bytes: new Uint8Array(resp.data) };
+    },
+
+    async weather(params) {
+      const cacheKey = `${params.adcode}:${params.forecast ? params.at.date : 'live'}`;
+      const hit = weatherCache.get(cacheKey);
+      if (hit && Date.now() < hit.expiresAt) return hit.value && normalizeWeather(hit.value, 'amap', params.at, params.forecast);
+      const resp = await upstream.get<AmapWeatherResponse>(`${BASE}/v3/weather/weatherInfo`, {
+        params: { key, city: params.adcode, extensions: params.forecast ? 'all' : 'base' },
+        timeout: 3000,
+        signal,
+      });
+      const ok = String(resp.data?.status) === '1';
+      weatherCache.set(cacheKey, { value: ok ? resp.data : null, expiresAt: Date.now() + WEATHER_TTL_MS });
+      return ok ? normalizeWeather(resp.data, 'amap', params.at, params.forecast) : null;
+    },
+
+    travelMatrix: amapTravelMatrix(key, signal),
+  };
+}
@@ -0,0 +1,57 @@
+// 体力/无障碍档位：正常、少走路、轮椅/婴儿车。
+// 影响三处：步行速度（估算和高德步行用时都按档位放慢）、单段步行上限、按类目加减分/剔除。
+export type EffortProfile = 'normal' | 'easy' | 'accessible';
+
+export type EffortSettings = {
+  label: string;
+  walkPace: number; // 相对常人步速的倍数
+  maxWalkLegMin: number | null; // 单段步行（含公交换乘步行）上限，按放慢后的用时算
+  seatingBoost: number; // 有座位的地方（咖啡馆、影院…）加权
+  hillFactor: number; // 爬坡/台阶多的景点权重系数
+  excludeStairs: boolean;
+};
+
+const SETTINGS: Record<EffortProfile, EffortSettings> = {
+  normal: { label: '正常', walkPace: 1, maxWalkLegMin: null, seatingBoost: 1, hillFactor: 1, excludeStairs: false },
+  easy: { label: '少走路', walkPace: 0.85, maxWalkLegMin: 15, seatingBoost: 1.3, hillFactor: 0.5, excludeStairs: false },
+  // 轮椅/婴儿车在平路上推得动，怕的是台阶：步行上限放宽一点，但台阶多的景点直接不去
+  accessible: { label: '轮椅/婴儿车', walkPace: 0.75, maxWalkLegMin: 20, seatingBoost: 1.2, hillFactor: 0.3, excludeStairs: true },
+};
+
+export function effortSettings(profile: EffortProfile): EffortSettings {
+  return SETTINGS[profile];
+}
+
+// 从一句话偏好里推断；没提到体力就返回 null（由调用方决定默认值）
+export function inferEffortProfile(mood: string): EffortProfile | null {
+  const m = (mood || '').trim();
+  if (!m) return null;
+  if (/轮椅|婴儿车|推车|童车|带宝宝|抱娃|遛娃|拄拐|行动不便/.test(m)) return 'accessible';
+  if (/不想走路|不想走|少走|走不动|懒得走|不想太累|别太累|不想累|腿疼|脚疼|累了|歇一歇|歇会|坐着/.test(m)) return 'easy';
+  return null;
+}
+
+// 名字里带“山”却跟山无关的说法（中山公园、xx山庄、xx山大道），按名字判断山林景点前先去掉
+export function withoutFlatShan(name: string) {
+  return name.replace(/中山|山庄|山路|山大道/g, '');
+}
+
+// 台阶/爬坡多的景点。宜昌的山、峡、洞类景点基本都是步道 + 台阶；
+// 名字里带“山”的公园太多（中山公园等是平的），只在风景名胜类目里才按“山”算
+export function isStairHeavy(poi: { name: string; category: string }) {
+  const name = String(poi.name || '');
+  if (/登山|爬山|栈道|台阶|石阶|天梯|古道|溶洞|峡谷|山顶|观景台|索道/.test(name)) return true;
+  const scenic = /风景名胜/.test(String(poi.category || ''));
+  return scenic && /山|岭|峰|洞|峡|寨/.test(withoutFlatShan(name));
+}
+
+export function hasSeating(poi: { name: string; category: string }) {
+  return /咖啡|茶馆|茶室|茶艺|甜品|餐饮服务|电影院|影城|书店|图书馆|温泉|汤泉|足疗|按摩/.test(`${poi.name} ${poi.category}`);
+}
+
+// 排序系数：坐得下的加分，爬坡的减分；正常档位恒为 1
+export function effortFactor(profile: EffortProfile, poi: { name: string; category: string }) {
+  if (profile === 'normal') return 1;
+  if (isStairHeavy(poi)) return SETTINGS[profile].hillFactor;
+  return hasSeating(poi) ? SETTINGS[profile].seatingBoost : 1;
+}
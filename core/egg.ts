@@ -0,0 +1,187 @@
+import { z } from 'zod';
+import { resolveTimeWindow, type TimeWindow } from './timeWindow';
+import { eggTaskSet } from './intents';
+import { reply, type CoreRequest, type CoreResponse } from './http';
+import { createLlmClient } from './llm';
+
+const DAY_START_MIN = 6 * 60; // 06:00
+const DAY_END_MIN = 20 * 60; // 20:00
+
+const EggRequestSchema = z.object({
+  mode: z.enum(['walk', 'bike', 'drive', 'transit']).default('walk'),
+  startTime: z.string().min(4), // HH:mm 或 ISO 日期时间
+  endTime: z.string().min(4), // HH:mm 或 ISO 日期时间
+  timezone: z.string().optional(),
+  mood: z.string().optional().default(''),
+  city: z.string().optional().default('宜昌'),
+  poi: z.object({
+    name: z.string().min(1),
+    category: z.string().optional().default(''),
+    address: z.string().optional().default(''),
+    location: z.string().min(3), // "lng,lat"
+  }),
+  playMin: z.coerce.number().int().min(0).max(24 * 60).optional(),
+});
+
+const StorySchema = z.object({
+  title: z.string().min(1),
+  story: z.string().min(1),
+  tasks: z.array(z.string()).min(2).max(5),
+});
+
+function isDaytimeWindow(w: TimeWindow) {
+  // We treat "crossing midnight" (different local dates) as not-daytime for safety.
+  if (w.startLocal.date !== w.endLocal.date) return false;
+  return w.startLocal.minuteOfDay >= DAY_START_MIN && w.endLocal.minuteOfDay <= DAY_END_MIN;
+}
+
+function safeTasksByCategory(poi: { name: string; category: string }, playMin?: number) {
+  // 地点归类和推荐共用意图目录（core/intents.ts）
+  const set = eggTaskSet(poi);
+
+  const walkSteps = playMin && playMin < 20 ? 300 : 600;
+  if (set === 'park') {
+    return [
+      `在园内慢走 ${walkSteps} 步，找一处你觉得“最松弛”的角落`,
+      `停留 2 分钟，拍一张“树影/水面/天空”（可不上传）`,
+      `离开前深呼吸 10 次，把今天的烦恼丢在这里`,
+    ];
+  }
+  if (set === 'museum') {
+    return [
+      `找到一块你最感兴趣的展牌，读完并用一句话总结`,
+      `选一个角落安静坐 2 分钟，观察人群节奏`,
+      `离开前在脑子里记住 1 个新知识点`,
+    ];
+  }
+  if (set === 'mall') {
+    return [
+      `随便逛 10 分钟，只进 1 家你没去过的店看看`,
+      `找到一个光线舒服的地方停留 2 分钟，放空一下`,
+      `离开前给自己一个“今日小奖励”的想法（不一定要买）`,
+    ];
+  }
+  return [
+    `到达后慢走 ${walkSteps} 步，寻找一个“能让你放松”的视角`,
+    `停留 2 分钟，观察周围 3 个有趣细节`,
+    `离开前给这段碎片时间取个名字`,
+  ];
+}
+
+function fallbackStory(input: { poi: { name: string; category: string; address: string }; tasks: string[] }) {
+  const title = `碎片时间挑战：${input.poi.name}`;
+  const story = [
+    `你收到一条匿名线索：`,
+    `“白天的${input.poi.name}，藏着一枚不会被人看见的‘时间碎片’。”`,
+    `走到人来人往的公共区域，别靠近危险边缘，别进入封闭区域。`,
+    `当你完成挑战，‘宝藏’会在你的脑海里自动解锁。`,
+  ].join('\n');
+  return { title, story, tasks: input.tasks };
+}
+
+async function glmEggStory(params: { mood: string; poi: { name: string; category: string; address: string }; tasks: string[] }) {
+  const llm = createLlmClient();
+  if (!llm) return fallbackStory({ poi: params.poi, tasks: params.tasks });
+
+  const prompt = [
+    `你是“碎片时间定向挑战”的文案生成器。`,
+    `目标：基于给定地点，生成一个轻悬疑/轻玄幻风格的“线索故事”，并给出 2-4 条安全任务。`,
+    `硬性安全要求：公共场所、白天触发、不引导翻找/攀爬/进入封闭区域、不涉及真实社交。`,
+    `输出必须是严格 JSON（不要 Markdown），格式：{"title":"...","story":"...","tasks":["...","..."]}`,
+    `地点：${params.poi.name}（${params.poi.category}） ${params.poi.address}`,
+    params.mood ? `用户偏好：${params.mood}` : `用户偏好：（未填写）`,
+    `可参考任务（可改写但不要更危险）：${JSON.stringify(params.tasks)}`,
+  ].join('\n');
+
+  try {
+    return await llm.json({ task: 'egg', prompt, schema: StorySchema, temperature: 0.7, timeoutMs: 10000 });
+  } catch {
+    return fallbackStory({ poi: params.poi, tasks: params.tasks });
+  }
+}
+
+// POST /api/egg
+export async function handleEgg(req: CoreRequest): Promise<CoreResponse> {
+  if (req.method !== 'POST') return reply(405, { error: 'method_not_allowed' });
+
+  const parsed = EggRequestSchema.safeParse(req.body);
+  if (!parsed.success) return reply(400, { error: 'bad_request', detail: parsed.error.flatten() });
+
+  const { startTime, endTime, timezone, poi, mood, playMin } = parsed.data;
+  // 彩蛋常在推荐之后才点开，这里不要求时间段仍在未来
+  const tw = resolveTimeWindow({ startTime, endTime, timezone, allowPast: true });
+  if (!tw.ok) return reply(400, { error: 'bad_time_window', message: tw.message });
+  const eligible = isDaytimeWindow(tw.window);
+  if (!eligible) {
+    return reply(200, {
+      ok: true,
+      eligible: false,
+      message: `彩蛋仅在白天可触发（建议选择 ${String(DAY_START_MIN / 60).padStart(2, '0')}:00-${String(DAY_END_MIN / 60).padStart(2, '0')}:00）`,
+    });
+  }
+
+  const tasks = safeTasksByCategory({ name: poi.name, category: poi.category || '' }, playMin).slice(0, 3);
+  const story = await glmEggStory({ mood, poi: { name: poi.name, category: poi.category || '', address: poi.address || '' }, tasks });
+
+  return reply(200, {
+    ok: true,
+    eligible: true,
+    egg: {
+      kind: 'challenge',
+      title: story.title,
+      story: story.story,
+      tasks: story.tasks,
+      verify: {
+        radiusMeter: 140,
+        destLocation: poi.location,
+      },
+      safety: ['公共场所触发', '仅白天可触发', '不需要与陌生人见面', '注意交通与台阶/水边'],
+    },
+  });
+}
+
+const VerifySchema = z.object({
+  user: z.object({
+    lng: z.number().min(-180).max(180),
+    lat: z.number().min(-90).max(90),
+  }),
+  destLocation: z.string().min(3), // "lng,lat"
+  radiusMeter: z.coerce.number().int().min(30).max(1000).default(140),
+});
+
+function haversineMeters(a: { lng: number; lat: number }, b: { lng: number; lat: number }) {
+  const toRad = (d: number) => (d * Math.PI) / 180;
+  const R = 6371000;
+  const dLat = toRad(b.lat - a.lat);
+  const dLng = toRad(b.lng - a.lng);
+  const lat1 = toRad(a.lat);
+  const lat2 = toRad(b.lat);
+  const x =
+    Math.sin(dLat / 2) ** 2 +
+    Math.cos(lat1) * Math.cos(lat2) * Math.sin(dLng / 2) ** 2;
+  return 2 * R * Math.asin(Math.min(1, Math.sqrt(x)));
+}
+
+// POST /api/egg-verify：到没到目的地（不保存定位，只算距离）
+export async function handleEggVerify(req: CoreRequest): Promise<CoreResponse> {
+  if (req.method !== 'POST') return reply(405, { error: 'method_not_allowed' });
+
+  const parsed = VerifySchema.safeParse(req.body);
+  if (!parsed.success) return reply(400, { error: 'bad_request', detail: parsed.error.flatten() });
+
+  const [lngStr, latStr] = parsed.data.destLocation.split(',');
+  const dest = { lng: Number(lngStr), lat: Number(latStr) };
+  if (!Number.isFinite(dest.lng) || !Number.isFinite(dest.lat)) {
+    return reply(400, { error: 'bad_request', message: 'Invalid destLocation' });
+  }
+
+  const dist = haversineMeters(parsed.data.user, dest);
+  const reached = dist <= parsed.data.radiusMeter;
+
+  return reply(200, {
+    ok: true,
+    reached,
+    distanceMeter: Math.round(dist),
+    radiusMeter: parsed.data.radiusMeter,
+  });
+}
@@ -0,0 +1,113 @@
+import { FIXTURE_PLACE, FIXTURE_POIS, type FixturePoi } from './mapFixtures';
+import type { MapMarker, MapPoi, MapProvider, MapRoute } from './mapProvider';
+import { estTravelMin, type Mode } from './travelMode';
+import { normalizeWeather } from './weather';
+import { WEATHER_FIXTURES } from './weatherFixtures';
+
+// 离线地图服务：POI 来自 core/mapFixtures.ts，路线按直线 × 绕路系数估算，静态图画成 SVG 示意。
+// 不联网、不要 Key；结果是确定的，方便本地演示和离线检查。
+const DETOUR = 1.35;
+// 公交：两头各走几分钟到站；太近时和高德一样直接给步行方案
+const TRANSIT_WALK_SEC = 4 * 60;
+const TRANSIT_MIN_M = 800;
+
+function parse(location: string) {
+  const [lng, lat] = location.split(',').map(Number);
+  return { lng, lat };
+}
+
+function haversineMeters(a: string, b: string) {
+  const p = parse(a);
+  const q = parse(b);
+  const toRad = (d: number) => (d * Math.PI) / 180;
+  const x =
+    Math.sin(toRad(q.lat - p.lat) / 2) ** 2 + Math.cos(toRad(p.lat)) * Math.cos(toRad(q.lat)) * Math.sin(toRad(q.lng - p.lng) / 2) ** 2;
+  return 2 * 6371000 * Math.asin(Math.min(1, Math.sqrt(x)));
+}
+
+// 高德的关键字检索是模糊匹配：这里按名称、类别和 tags 互相包含来近似
+function matches(poi: FixturePoi, keywords: string) {
+  const terms = keywords.split(/[\s|,，]+/).filter(Boolean);
+  const fields = [poi.name, ...poi.category.split(';'), ...poi.tags];
+  return terms.some((t) => fields.some((f) => f.includes(t) || (f.length >= 2 && t.includes(f))));
+}
+
+// tags 只用于检索，不带进结果
+function toMapPoi(p: FixturePoi, from: string): MapPoi {
+  const poi: Partial<FixturePoi> = { ...p, distanceMeter: Math.round(haversineMeters(from, p.location)) };
+  delete poi.tags;
+  return poi as MapPoi;
+}
+
+function route(mode: Mode, origin: string, destination: string): MapRoute {
+  const meters = haversineMeters(origin, destination) * DETOUR;
+  const polyline = `${origin};${destination}`;
+  if (mode === 'transit' && meters >= TRANSIT_MIN_M) {
+    const rideSec = (estTravelMin('transit', meters) - 2 * (TRANSIT_WALK_SEC / 60)) * 60;
+    const stops = Math.max(1, Math.round(meters / 600));
+    return {
+      mode,
+      durationSec: rideSec + 2 * TRANSIT_WALK_SEC,
+      polyline,
+      summary: `步行${TRANSIT_WALK_SEC / 60}分 → 样例公交（${stops + 1}站） → 步行${TRANSIT_WALK_SEC / 60}分`,
+      walkSec: 2 * TRANSIT_WALK_SEC,
+      walkMaxSec: TRANSIT_WALK_SEC,
+    };
+  }
+  const actual: Mode = mode === 'transit' ? 'walk' : mode;
+  const durationSec = estTravelMin(actual, meters) * 60;
+  const walkSec = actual === 'walk' ? durationSec : 0;
+  return { mode: actual, durationSec, polyline, walkSec, walkMaxSec: walkSec };
+}
+
+// Web 墨卡托下按 zoom 把经纬度换成相对中心的像素（静态图只用来示意位置关系）
+function staticMapSvg(params: { center: string; zoom: number; size: string; markers: MapMarker[] }) {
+  const [w, h] = params.size.split('*').map((n) => Math.max(50, Math.min(1024, Number(n) || 0)));
+  const c = parse(params.center);
+  const metersPerPx = (156543.03 * Math.cos((c.lat * Math.PI) / 180)) / 2 ** params.zoom;
+  const px = (location: string) => {
+    const p = parse(location);
+    const dx = ((p.lng - c.lng) * 111320 * Math.cos((c.lat * Math.PI) / 180)) / metersPerPx;
+    const dy = ((p.lat - c.lat) * 110540) / metersPerPx;
+    return { x: Math.round(w / 2 + dx), y: Math.round(h / 2 - dy) };
+  };
+  const pins = params.markers.map((m) => {
+    const { x, y } = px(m.location);
+    const color = m.color.replace(/^0x/, '#');
+    return `<circle cx="${x}" cy="${y}" r="12" fill="${color}"/><text x="${x}" y="${y + 5}" font-size="14" text-anchor="middle" fill="#fff">${m.label}</text>`;
+  });
+  const svg = `<svg xmlns="http://www.w3.org/2000/svg" width="${w}" height="${h}" viewBox="0 0 ${w} ${h}"><rect width="100%" height="100%" fill="#eef2f7"/><text x="10" y="${h - 10}" font-size="12" fill="#94a3b8">离线样例地图</text>${pins.join('')}</svg>`;
+  return new TextEncoder().encode(svg);
+}
+
+export function fixtureMapProvider(): MapProvider {
+  return {
+    name: 'fixture',
+
+    async searchAround(params) {
+      // 样例数据只有宜昌
+      if (params.city && !params.city.includes('宜昌') && params.city !== FIXTURE_PLACE.citycode) return [];
+      const hits = FIXTURE_POIS.filter((p) => matches(p, params.keywords))
+        .map((p) => toMapPoi(p, params.location))
+        .filter((p) => p.distanceMeter! <= params.radius)
+        .sort((a, b) => a.distanceMeter! - b.distanceMeter!);
+      return hits.slice((params.page - 1) * params.pageSize, params.page * params.pageSize);
+    },
+
+    async route(params) {
+      return route(params.mode, params.origin, params.destination);
+    },
+
+    async reverseGeocode() {
+      return FIXTURE_PLACE;
+    },
+
+    async staticMap(params) {
+      return { contentType: 'image/svg+xml', bytes: staticMapSvg(params) };
+    },
+
+    async weather(params) {
+      return normalizeWeather(WEATHER_FIXTURES.clear, 'fixture', params.at, params.forecast);
+    },
+  };
+}
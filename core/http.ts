@@ -0,0 +1,24 @@
+// 和框架无关的请求/响应：线上的 Vercel 函数（api/）和本地的 Express（server/）都只做转换，
+// 业务全在 core 的 handler 里，两边的回答自然一致（scripts/check-parity.ts 会对比）。
+
+export type CoreRequest = {
+  method: string;
+  query: Record<string, unknown>; // 各 handler 用自己的 schema 校验、收窄
+  body: unknown;
+  signal?: AbortSignal; // 客户端断开时触发：流式接口据此停掉还在跑的路线规划和大模型
+};
+
+export type CoreResponse = {
+  status: number;
+  headers?: Record<string, string>;
+  json?: unknown;
+  binary?: Uint8Array; // 图片等二进制响应（有它时忽略 json）
+  stream?: AsyncIterable<string>; // 边算边发的响应（如 NDJSON，一段一行），适配层逐段写出（有它时忽略 json）
+  streamError?: (err: unknown) => string; // 流写到一半出错时适配层补写的最后一段（表头已发出，状态码改不了了）
+};
+
+export type CoreHandler = (req: CoreRequest) => Promise<CoreResponse>;
+
+export function reply(status: number, json: unknown, headers?: Record<string, string>): CoreResponse {
+  return headers ? { status, json, headers } : { status, json };
+}
@@ -0,0 +1,265 @@
+// 意图目录：用户一句话 → 意图/搜索词/最短停留，POI → 属于哪类、和意图合不合，彩蛋任务用哪一套，全部从这张表推出来。
+// - INTENTS：大类。顺序就是优先级（一句话命中多个大类时取靠前的），affinity 按书写顺序匹配
+// - TOPICS：大类下的细分话题。triggers 匹配用户的话，keywords 拿去高德搜，browse 是“没说想干嘛”时的默认搜索词；
+//   weak 话题只出搜索词、不定意图（“室内”商场博物馆影院都算，不能因此把别的室内去处当成不对口）
+// 新增一类：先加 INTENTS / TOPICS，再跑 npm run check:intents，它会检查两张表有没有对不上的地方。
+
+export type IntentPrimary = 'spa' | 'movie' | 'culture' | 'park' | 'shopping' | 'food' | 'other';
+
+export type EggTaskSet = 'park' | 'museum' | 'mall' | 'generic';
+
+export type IntentDef = {
+  id: IntentPrimary;
+  label: string;
+  // 高德 POI 分类编码前缀（place 接口返回的 typecode），比名称/类目文字更准
+  amapTypes: string[];
+  // 除了本类话题的搜索词之外，POI 名称/类目里出现这些词也算这一类
+  poiTerms: string[];
+  // POI 的一级类目（category 第一段）等于它也算这一类
+  topCategory?: string;
+  // 用户想去 id 这一类、POI 却是别的类时的亲和度 [-1, 1]；按书写顺序取第一个命中的，都不命中用 '*'
+  affinity: Partial<Record<IntentPrimary, number>> & { '*': number };
+  eggTasks: EggTaskSet;
+};
+
+export type IntentTopic = {
+  id: string;
+  intent: IntentPrimary;
+  triggers: RegExp;
+  keywords: string[];
+  browse?: string[];
+  minStayMin: number;
+  weak?: boolean;
+};
+
+export const INTENTS: IntentDef[] = [
+  {
+    id: 'spa',
+    label: '温泉/汗蒸',
+    amapTypes: ['0714'], // 生活服务;洗浴推拿场所
+    poiTerms: ['汗蒸', '浴场'],
+    affinity: { food: -0.4, '*': -0.2 },
+    eggTasks: 'generic',
+  },
+  {
+    id: 'movie',
+    label: '电影',
+    amapTypes: ['080601'], // 体育休闲服务;影剧院;电影院
+    poiTerms: ['影城'],
+    affinity: { food: 0.1, '*': -0.2 },
+    eggTasks: 'generic',
+  },
+  {
+    id: 'culture',
+    label: '看展/博物馆',
+    amapTypes: ['14'], // 科教文化服务
+    poiTerms: ['美术馆', '图书馆'],
+    topCategory: '科教文化服务',
+    affinity: { food: -0.4, '*': -0.15 },
+    eggTasks: 'museum',
+  },
+  {
+    id: 'park',
+    label: '公园/江边/景点',
+    amapTypes: ['11'], // 风景名胜（含公园广场）
+    poiTerms: ['公园广场', '滨江', '绿地', '湿地', '风景名胜', '旅游景点'],
+    topCategory: '风景名胜',
+    affinity: { food: -0.85, shopping: -0.4, '*': -0.15 },
+    eggTasks: 'park',
+  },
+  {
+    id: 'shopping',
+    label: '逛街',
+    amapTypes: ['06'], // 购物服务
+    poiTerms: ['购物', '步行街'],
+    topCategory: '购物服务',
+    // 商场吃喝算合理伴随
+    affinity: { food: 0.1, park: -0.4, '*': -0.15 },
+    eggTasks: 'mall',
+  },
+  {
+    id: 'food',
+    label: '吃喝',
+    amapTypes: ['05'], // 餐饮服务
+    poiTerms: ['餐饮服务'],
+    topCategory: '餐饮服务',
+    affinity: { park: -0.2, culture: -0.35, '*': -0.15 },
+    eggTasks: 'generic',
+  },
+  {
+    id: 'other',
+    label: '随便逛逛',
+    amapTypes: [],
+    poiTerms: [],
+    affinity: { '*': 0 },
+    eggTasks: 'generic',
+  },
+];
+
+export const INTENT_IDS = INTENTS.map((x) => x.id) as [IntentPrimary, ...IntentPrimary[]];
+
+// 顺序决定默认搜索词的顺序
+export const TOPICS: IntentTopic[] = [
+  { id: 'coffee', intent: 'food', triggers: /咖啡|拿铁|美式/, keywords: ['咖啡', '咖啡馆'], browse: ['咖啡'], minStayMin: 45 },
+  { id: 'dessert', intent: 'food', triggers: /甜品|蛋糕|奶茶/, keywords: ['甜品'], browse: ['甜品'], minStayMin: 45 },
+  { id: 'snack', intent: 'food', triggers: /小吃/, keywords: ['小吃'], browse: ['小吃'], minStayMin: 30 },
+  { id: 'night_market', intent: 'food', triggers: /夜市/, keywords: ['夜市'], browse: ['夜市'], minStayMin: 60 },
+  { id: 'late_snack', intent: 'food', triggers: /夜宵|宵夜|烧烤/, keywords: ['夜宵', '烧烤'], minStayMin: 60 },
+  { id: 'bbq', intent: 'food', triggers: /烧烤|烤串|烤肉|撸串|串串/, keywords: ['烧烤', '烤串', '烤肉', '串串香'], minStayMin: 60 },
+  {
+    id: 'hotpot',
+    intent: 'food',
+    triggers: /火锅|涮肉|涮锅|麻辣烫|串串香/,
+    keywords: ['火锅', '重庆火锅', '牛肉火锅', '涮肉', '麻辣烫'],
+    minStayMin: 60,
+  },
+  // 只用来判断意图，不单独出搜索词
+  { id: 'eat', intent: 'food', triggers: /吃|喝/, keywords: [], minStayMin: 30 },
+  // NOTE: “公园”和“江边”分开触发，避免用户只想逛公园时也把餐饮类（江边烧烤等）一起搜出来
+  { id: 'park', intent: 'park', triggers: /公园/, keywords: ['公园'], browse: ['公园'], minStayMin: 30 },
+  { id: 'riverside', intent: 'park', triggers: /江边/, keywords: ['江边'], browse: ['江边'], minStayMin: 30 },
+  { id: 'stroll', intent: 'park', triggers: /散步|走走|遛弯/, keywords: ['江边', '公园'], minStayMin: 30 },
+  { id: 'mall', intent: 'shopping', triggers: /逛街|商场|购物/, keywords: ['商场'], browse: ['商场'], minStayMin: 90 },
+  { id: 'indoor', intent: 'other', triggers: /室内/, keywords: ['商场', '博物馆', '展览', '电影院', '图书馆'], minStayMin: 60, weak: true },
+  { id: 'movie', intent: 'movie', triggers: /电影/, keywords: ['电影院'], browse: ['电影院'], minStayMin: 120 },
+  {
+    id: 'exhibition',
+    intent: 'culture',
+    // 单个“展”也算（看个展、去展上转转）
+    triggers: /展|博物馆|美术馆/,
+    keywords: ['博物馆', '展馆'],
+    browse: ['博物馆', '展馆'],
+    minStayMin: 60,
+  },
+  { id: 'scenic', intent: 'park', triggers: /景点|风景|拍照/, keywords: ['景点'], browse: ['景点'], minStayMin: 30 },
+  { id: 'spa', intent: 'spa', triggers: /温泉|泡汤|汤泉|汗蒸/, keywords: ['温泉', '汤泉', '泡汤'], minStayMin: 120 },
+];
+
+const DEFAULT_MIN_STAY_MIN = 30;
+
+const INTENT_BY_ID = new Map(INTENTS.map((x) => [x.id, x]));
+
+function escapeRegExp(s: string) {
+  return s.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+// 每个大类的 POI 文字匹配：本类话题的搜索词 + poiTerms
+const POI_TEXT = new Map(
+  INTENTS.map((def) => {
+    const terms = [...TOPICS.filter((t) => t.intent === def.id && !t.weak).flatMap((t) => t.keywords), ...def.poiTerms];
+    return [def.id, terms.length ? new RegExp(Array.from(new Set(terms)).map(escapeRegExp).join('|')) : null];
+  })
+);
+
+export function intentDef(id: IntentPrimary): IntentDef {
+  return INTENT_BY_ID.get(id) ?? INTENT_BY_ID.get('other')!;
+}
+
+export function matchTopics(text: string): IntentTopic[] {
+  const t = String(text || '').trim();
+  if (!t) return [];
+  return TOPICS.filter((x) => x.triggers.test(t));
+}
+
+// 从一句话里抽搜索词（不含“没说想干嘛”时的兜底，由调用方决定）
+export function topicKeywords(text: string): string[] {
+  return Array.from(new Set(matchTopics(text).flatMap((x) => x.keywords)));
+}
+
+export function defaultBrowseKeywords(): string[] {
+  return Array.from(new Set(TOPICS.flatMap((x) => x.browse ?? [])));
+}
+
+// 命中多个大类时按 INTENTS 的顺序取第一个；什么都没命中（或只命中 weak 话题）就是弱意图 other
+export function inferIntent(text: string): { primary: IntentPrimary; strong: boolean } {
+  const hit = new Set(
+    matchTopics(text)
+      .filter((x) => !x.weak)
+      .map((x) => x.intent)
+  );
+  const def = INTENTS.find((x) => hit.has(x.id));
+  return def ? { primary: def.id, strong: true } : { primary: 'other', strong: false };
+}
+
+// 命中多个话题时取最长的停留（看电影再吃火锅，按电影算）
+export function defaultMinStayMin(text: string): number {
+  const hits = matchTopics(text);
+  return hits.length ? Math.max(...hits.map((x) => x.minStayMin)) : DEFAULT_MIN_STAY_MIN;
+}
+
+// POI 属于哪些大类（可能同时属于多类，如“江边烧烤”）；顺序同 INTENTS
+export function poiIntents(poi: { name: string; category: string; typecode?: string }): IntentPrimary[] {
+  const category = String(poi.category || '');
+  const top = category.split(';')[0] || '';
+  const full = `${poi.name || ''} ${category}`;
+  const codes = String(poi.typecode || '')
+    .split('|')
+    .filter(Boolean);
+  return INTENTS.filter((def) => {
+    if (codes.some((c) => def.amapTypes.some((p) => c.startsWith(p)))) return true;
+    if (def.topCategory && top === def.topCategory) return true;
+    return POI_TEXT.get(def.id)?.test(full) ?? false;
+  }).map((def) => def.id);
+}
+
+// 类别亲和度 [-1, 1]：1 表示正是用户想去的那一类
+export function poiAffinity(primary: IntentPrimary, poi: { name: string; category: string; typecode?: string }) {
+  const kinds = poiIntents(poi);
+  if (primary !== 'other' && kinds.includes(primary)) return 1;
+  const row = intentDef(primary).affinity;
+  for (const [kind, v] of Object.entries(row)) {
+    if (kind !== '*' && kinds.includes(kind as IntentPrimary)) return v as number;
+  }
+  return row['*'];
+}
+
+// 彩蛋任务：按 POI 所属大类里第一个有专属任务的取
+export function eggTaskSet(poi: { name: string; category: string; typecode?: string }): EggTaskSet {
+  for (const kind of poiIntents(poi)) {
+    const set = intentDef(kind).eggTasks;
+    if (set !== 'generic') return set;
+  }
+  return 'generic';
+}
+
+// 目录自检：返回发现的问题（空数组 = 一致）。scripts/check-intents.ts 会跑它
+export function checkIntentCatalog(): string[] {
+  const problems: string[] = [];
+  const ids = new Set<string>(INTENT_IDS);
+  if (ids.size !== INTENTS.length) problems.push('INTENTS 里有重复的 id');
+  const topicIds = new Set(TOPICS.map((t) => t.id));
+  if (topicIds.size !== TOPICS.length) problems.push('TOPICS 里有重复的 id');
+
+  for (const t of TOPICS) {
+    if (!ids.has(t.intent) || (t.intent === 'other') !== Boolean(t.weak)) problems.push(`话题 ${t.id} 指向了无效大类 ${t.intent}`);
+    if (!(t.minStayMin > 0)) problems.push(`话题 ${t.id} 的最短停留必须大于 0`);
+    for (const b of t.browse ?? []) {
+      if (!t.keywords.includes(b)) problems.push(`话题 ${t.id} 的默认搜索词“${b}”不在它的 keywords 里`);
+    }
+    // weak 话题的搜索词属于别的大类，不做下面的回查
+    for (const kw of t.weak ? [] : t.keywords) {
+      // 搜索词本身要能被识别回同一大类，否则手动选类目/把搜索词拼进文本再推断时会漂
+      const back = inferIntent(kw);
+      if (back.primary !== t.intent) problems.push(`搜索词“${kw}”（${t.id}）被识别成 ${back.primary}，应为 ${t.intent}`);
+      // 拿搜索词当 POI 名称，也应该被归到这一类
+      if (!poiIntents({ name: kw, category: '' }).includes(t.intent)) problems.push(`名称为“${kw}”的 POI 没被归到 ${t.intent}`);
+    }
+  }
+
+  for (const kw of defaultBrowseKeywords()) {
+    if (inferIntent(kw).primary === 'other') problems.push(`默认搜索词“${kw}”没有对应意图`);
+  }
+
+  for (const def of INTENTS) {
+    for (const [k, v] of Object.entries(def.affinity)) {
+      if (k !== '*' && !ids.has(k)) problems.push(`${def.id} 的亲和度里有未知大类 ${k}`);
+      if (k === def.id) problems.push(`${def.id} 的亲和度不该包含自己（同类恒为 1）`);
+      if (typeof v !== 'number' || v < -1 || v > 1) problems.push(`${def.id} → ${k} 的亲和度 ${v} 不在 [-1, 1]`);
+    }
+    if (def.id === 'other') continue;
+    if (!TOPICS.some((t) => t.intent === def.id && t.keywords.length)) problems.push(`大类 ${def.id} 没有任何可搜索的话题`);
+    if (!def.amapTypes.length) problems.push(`大类 ${def.id} 没有高德分类编码`);
+    if (def.amapTypes.some((c) => !/^\d{2,6}$/.test(c))) problems.push(`大类 ${def.id} 的高德分类编码格式不对`);
+  }
+  return problems;
+}
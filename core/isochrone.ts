@@ -0,0 +1,94 @@
+import type { MapProvider, MapProviderName } from './mapProvider';
+import { createTravelMatrix, travelMatrixSource } from './travelMatrix';
+import { estTravelMin, matrixBasis, matrixMin, metersPerMin, type Mode } from './travelMode';
+
+// 等时圈：从起点出发，在 budgetMin 分钟内（单程）能到的范围。
+// 做法：BEARINGS 个方向 × RINGS 圈采样点，一次距离矩阵批量查“采样点 → 起点”的路网用时
+// （距离矩阵是多起点→单终点，96 个点一次查完），每个方向取最远还能到的半径连成多边形。
+// 江面、山体上的采样点会被路网绕远，半径自然缩回去。
+
+export type Isochrone = {
+  mode: Mode;
+  budgetMin: number;
+  origin: string; // "lng,lat"
+  polygon: Array<[number, number]>; // [lng, lat]，按方位角顺时针
+  source: MapProviderName | 'estimate';
+};
+
+const BEARINGS = 16;
+const RINGS = 6;
+const MIN_RADIUS_M = 100;
+const MAX_RADIUS_M = 20000;
+// 直线 → 路网的粗略绕路系数：采样点查不到路网时兜底
+const DETOUR = 1.35;
+const CACHE_TTL_MS = 30 * 60 * 1000;
+const cache = new Map<string, { value: Promise<Isochrone>; expiresAt: number }>();
+
+function offset(lng: number, lat: number, bearingDeg: number, meters: number): [number, number] {
+  const rad = (bearingDeg * Math.PI) / 180;
+  const dLat = (meters * Math.cos(rad)) / 111320;
+  const dLng = (meters * Math.sin(rad)) / (111320 * Math.cos((lat * Math.PI) / 180));
+  return [Number((lng + dLng).toFixed(6)), Number((lat + dLat).toFixed(6))];
+}
+
+async function build(params: { maps: MapProvider; mode: Mode; origin: string; budgetMin: number }): Promise<Isochrone> {
+  const [lng, lat] = params.origin.split(',').map(Number);
+  // 最外圈比“按平均速度能走到的距离”再放宽一点，让顺路的快速路有机会把半径撑出去
+  const maxR = Math.min(MAX_RADIUS_M, Math.max(MIN_RADIUS_M * 4, params.budgetMin * metersPerMin(params.mode) * 1.25));
+  const rings = Array.from({ length: RINGS }, (_, i) => (maxR * (i + 1)) / RINGS);
+  const bearings = Array.from({ length: BEARINGS }, (_, i) => (360 * i) / BEARINGS);
+  const samples = bearings.flatMap((b) => rings.map((r) => offset(lng, lat, b, r)));
+
+  const matrix = createTravelMatrix(params.maps);
+  const cells = await matrix({
+    basis: matrixBasis(params.mode),
+    origins: samples.map(([x, y]) => `${x},${y}`),
+    destination: params.origin,
+  });
+
+  const polygon = bearings.map((b, bi) => {
+    let prevR = 0;
+    let prevT = 0;
+    let reach = maxR;
+    for (let ri = 0; ri < RINGS; ri++) {
+      const r = rings[ri];
+      const t = matrixMin(params.mode, cells[bi * RINGS + ri]) ?? estTravelMin(params.mode, r * DETOUR);
+      if (t > params.budgetMin) {
+        // 在上一圈（能到）和这一圈（到不了）之间按用时线性插值
+        reach = prevR + ((r - prevR) * Math.max(0, params.budgetMin - prevT)) / Math.max(1, t - prevT);
+        break;
+      }
+      prevR = r;
+      prevT = t;
+    }
+    return offset(lng, lat, b, Math.max(MIN_RADIUS_M, reach));
+  });
+
+  return { mode: params.mode, budgetMin: params.budgetMin, origin: params.origin, polygon, source: travelMatrixSource(params.maps) };
+}
+
+// 同一起点（约 100m 内）+ 同一方式 + 同一预算（5 分钟一档）复用结果
+export function computeIsochrone(params: { maps: MapProvider; mode: Mode; origin: string; budgetMin: number }): Promise<Isochrone> {
+  const [lng, lat] = params.origin.split(',').map(Number);
+  const budgetMin = Math.max(5, Math.round(params.budgetMin / 5) * 5);
+  const origin = `${lng.toFixed(3)},${lat.toFixed(3)}`;
+  const key = `${params.mode}:${origin}:${budgetMin}:${travelMatrixSource(params.maps)}`;
+  const hit = cache.get(key);
+  if (hit && Date.now() < hit.expiresAt) return hit.value;
+  const value = build({ maps: params.maps, mode: params.mode, origin, budgetMin });
+  cache.set(key, { value, expiresAt: Date.now() + CACHE_TTL_MS });
+  // 失败的结果不缓存，下次重试
+  value.catch(() => cache.delete(key));
+  return value;
+}
+
+// 射线法；polygon 顶点为 [lng, lat]
+export function isInsidePolygon(point: { lng: number; lat: number }, polygon: Array<[number, number]>) {
+  let inside = false;
+  for (let i = 0, j = polygon.length - 1; i < polygon.length; j = i++) {
+    const [xi, yi] = polygon[i];
+    const [xj, yj] = polygon[j];
+    if (yi > point.lat !== yj > point.lat && point.lng < ((xj - xi) * (point.lat - yi)) / (yj - yi) + xi) inside = !inside;
+  }
+  return inside;
+}
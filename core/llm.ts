@@ -0,0 +1,205 @@
+import axios from 'axios';
+import type { ZodType } from 'zod';
+import { stubChat } from './llmStub';
+import { upstream } from './upstream';
+
+declare const process: { env: Record<string, string | undefined> };
+
+// 大模型调用：偏好解析、报告+轻攻略、彩蛋故事都走这里。LLM_PROVIDER 选后端：
+// - zhipu（默认）：智谱 GLM，需要 ZHIPU_API_KEY，模型 ZHIPU_MODEL
+// - openai：任意 OpenAI 兼容接口（LLM_BASE_URL，如本地 llama.cpp / Ollama 的 http://localhost:11434/v1），
+//   模型 LLM_MODEL，LLM_API_KEY 可选
+// - stub：不联网的固定回复（core/llmStub.ts），离线检查用
+// 客户端统一负责：同一进程内串行调用（演示时少吃 429）、429 退避重试和冷却、从回复里抠 JSON、按 schema 校验。
+// 传了 onDelta 就按流式请求（stream: true），模型每吐一段文本回调一次，方便边生成边展示。
+
+export type LlmBackendName = 'zhipu' | 'openai' | 'stub';
+export type LlmTask = 'intent' | 'report' | 'egg';
+
+export type LlmJsonRequest<T> = {
+  task: LlmTask;
+  prompt: string;
+  schema: ZodType<T>;
+  temperature: number;
+  timeoutMs: number;
+  retries?: number; // 429 时重试几次（退避 1.2s、2.4s…），默认不重试
+  onDelta?: (text: string) => void; // 流式：模型输出的增量文本（原始 JSON 片段，可配合 partialJsonString）
+  signal?: AbortSignal; // 调用方不要结果了（如客户端断开）：排队中的直接放弃，进行中的请求中止
+};
+
+export type LlmClient = {
+  backend: LlmBackendName;
+  model: string;
+  // 最近被限流过：对延迟敏感的调用（偏好解析）可以直接走规则
+  coolingDown(): boolean;
+  // 失败（网络、超时、限流、不是 JSON、不符合 schema）都抛错，由调用方决定兜底
+  json<T>(req: LlmJsonRequest<T>): Promise<T>;
+};
+
+type ChatParams = {
+  task: LlmTask;
+  prompt: string;
+  temperature: number;
+  timeoutMs: number;
+  onDelta?: (text: string) => void;
+  signal?: AbortSignal;
+};
+type ChatBackend = { name: LlmBackendName; model: string; chat(params: ChatParams): Promise<string> };
+
+const ZHIPU_BASE_URL = 'https://open.bigmodel.cn/api/paas/v4';
+const DEFAULT_ZHIPU_MODEL = 'GLM-4-Flash-250414';
+const COOLDOWN_MS = 30_000;
+
+// 同一进程内所有后端共用一个队列和冷却
+let queue: Promise<unknown> = Promise.resolve();
+function withLock<T>(fn: () => Promise<T>): Promise<T> {
+  const next = queue.then(fn, fn);
+  queue = next.catch(() => {});
+  return next;
+}
+
+let cooldownUntil = 0;
+
+function sleep(ms: number) {
+  return new Promise((r) => setTimeout(r, ms));
+}
+
+function is429(e: unknown) {
+  return axios.isAxiosError(e) && e.response?.status === 429;
+}
+
+export function extractFirstJsonObject(text: string): string | null {
+  const start = text.indexOf('{');
+  const end = text.lastIndexOf('}');
+  if (start === -1 || end === -1 || end <= start) return null;
+  return text.slice(start, end + 1);
+}
+
+const JSON_ESCAPES: Record<string, string> = { n: '\n', t: '\t', r: '\r', b: '\b', f: '\f' };
+
+// 流式输出还没写完时，取 JSON 里某个字符串字段已经生成的部分（按 JSON 转义解码，末尾半个转义先不要）
+export function partialJsonString(text: string, field: string): string {
+  const m = new RegExp(`"${field}"\\s*:\\s*"`).exec(text);
+  if (!m) return '';
+  let out = '';
+  for (let i = m.index + m[0].length; i < text.length; i++) {
+    const ch = text[i];
+    if (ch === '"') break;
+    if (ch !== '\\') {
+      out += ch;
+      continue;
+    }
+    const next = text[i + 1];
+    if (next === undefined) break;
+    if (next === 'u') {
+      const hex = text.slice(i + 2, i + 6);
+      if (hex.length < 4) break;
+      out += String.fromCharCode(parseInt(hex, 16));
+      i += 5;
+      continue;
+    }
+    out += JSON_ESCAPES[next] ?? next;
+    i += 1;
+  }
+  return out;
+}
+
+// OpenAI 兼容的流式响应是 SSE：每个事件一行 data: {...}，最后 data: [DONE]
+async function* sseData(body: AsyncIterable<Uint8Array | string>) {
+  const decoder = new TextDecoder();
+  let buf = '';
+  for await (const chunk of body) {
+    buf += typeof chunk === 'string' ? chunk : decoder.decode(chunk, { stream: true });
+    let nl: number;
+    while ((nl = buf.indexOf('\n')) !== -1) {
+      const line = buf.slice(0, nl).trim();
+      buf = buf.slice(nl + 1);
+      if (line.startsWith('data:')) yield line.slice(5).trim();
+    }
+  }
+  if (buf.trim().startsWith('data:')) yield buf.trim().slice(5).trim();
+}
+
+// 智谱和各家本地服务都实现了 /chat/completions，回复在 choices[0].message.content
+function openAiCompatible(params: { name: LlmBackendName; baseUrl: string; apiKey?: string; model: string }): ChatBackend {
+  const url = `${params.baseUrl.replace(/\/+$/, '')}/chat/completions`;
+  return {
+    name: params.name,
+    model: params.model,
+    async chat({ prompt, temperature, timeoutMs, onDelta, signal }) {
+      const body = { model: params.model, messages: [{ role: 'user', content: prompt }], temperature };
+      const headers = params.apiKey ? { Authorization: `Bearer ${params.apiKey}` } : {};
+      if (!onDelta) {
+        const resp = await upstream.post(url, body, { headers, timeout: timeoutMs, signal });
+        return String(resp.data?.choices?.[0]?.message?.content || '').trim();
+      }
+      // 流式时 timeout 只管到响应头，整段输出的时限用 signal 控制
+      const deadline = AbortSignal.timeout(timeoutMs);
+      const resp = await upstream.post(
+        url,
+        { ...body, stream: true },
+        { headers, responseType: 'stream', signal: signal ? AbortSignal.any([signal, deadline]) : deadline }
+      );
+      let content = '';
+      for await (const data of sseData(resp.data)) {
+        if (data === '[DONE]') break;
+        const delta = String(JSON.parse(data)?.choices?.[0]?.delta?.content ?? '');
+        if (!delta) continue;
+        content += delta;
+        onDelta(delta);
+      }
+      return content.trim();
+    },
+  };
+}
+
+function withJson(backend: ChatBackend): LlmClient {
+  return {
+    backend: backend.name,
+    model: backend.model,
+    coolingDown: () => Date.now() < cooldownUntil,
+    json<T>(req: LlmJsonRequest<T>) {
+      const run = async (): Promise<T> => {
+        const retries = req.retries ?? 0;
+        for (let attempt = 0; ; attempt++) {
+          req.signal?.throwIfAborted();
+          let content: string;
+          try {
+            content = await backend.chat(req);
+          } catch (e) {
+            if (is429(e) && attempt < retries) {
+              await sleep(1200 * (attempt + 1));
+              continue;
+            }
+            if (is429(e)) cooldownUntil = Math.max(cooldownUntil, Date.now() + COOLDOWN_MS);
+            throw e;
+          }
+          const parsed = req.schema.safeParse(JSON.parse(extractFirstJsonObject(content) || content));
+          if (!parsed.success) throw new Error(`llm_bad_json: ${req.task}`);
+          return parsed.data;
+        }
+      };
+      return withLock(run);
+    },
+  };
+}
+
+export function llmBackendName(): LlmBackendName {
+  const v = String(process.env.LLM_PROVIDER || '').trim();
+  return v === 'openai' || v === 'stub' ? v : 'zhipu';
+}
+
+// 没配好（缺 Key / 缺地址或模型）时返回 null，调用方直接用规则兜底
+export function createLlmClient(): LlmClient | null {
+  const name = llmBackendName();
+  if (name === 'stub') return withJson({ name, model: 'stub', chat: (p) => stubChat(p.task, p.prompt, p.onDelta) });
+  if (name === 'openai') {
+    const baseUrl = String(process.env.LLM_BASE_URL || '').trim();
+    const model = String(process.env.LLM_MODEL || '').trim();
+    if (!baseUrl || !model) return null;
+    return withJson(openAiCompatible({ name, baseUrl, apiKey: process.env.LLM_API_KEY || undefined, model }));
+  }
+  const apiKey = process.env.ZHIPU_API_KEY;
+  if (!apiKey) return null;
+  return withJson(openAiCompatible({ name, baseUrl: ZHIPU_BASE_URL, apiKey, model: process.env.ZHIPU_MODEL || DEFAULT_ZHIPU_MODEL }));
+}
@@ -0,0 +1,93 @@
+import { inferIntent, topicKeywords } from './intents';
+import type { LlmTask } from './llm';
+
+// LLM_PROVIDER=stub 的固定回复：从提示词里取出输入，拼成符合各自 schema 的 JSON。
+// 同样的提示词永远得到同样的回复，离线检查、对比两端响应时用；文案只是占位，不代表模型效果。
+
+// 提示词里“标签：值”那一行的值（取最后一次出现）
+function lineAfter(prompt: string, label: string) {
+  const i = prompt.lastIndexOf(label);
+  return i === -1 ? '' : prompt.slice(i + label.length).split('\n')[0].trim();
+}
+
+// 提示词里某个标题下面紧跟的 JSON 块（标题取最后一次出现，前面的说明文字里可能也提到过）
+function jsonAfter(prompt: string, heading: string): unknown {
+  const i = prompt.lastIndexOf(heading);
+  if (i === -1) return null;
+  const block = prompt.slice(prompt.indexOf('\n', i) + 1).split('\n\n')[0];
+  try {
+    return JSON.parse(block);
+  } catch {
+    return null;
+  }
+}
+
+function intentReply(prompt: string) {
+  const mood = lineAfter(prompt, '用户偏好：');
+  const inferred = inferIntent(mood);
+  const keywords = topicKeywords(mood);
+  return {
+    primaryIntent: inferred.primary,
+    confidence: inferred.strong ? 0.8 : 0.6,
+    keywords: keywords.length ? keywords.slice(0, 5) : [mood.slice(0, 6)].filter(Boolean),
+    explain: '样例解析',
+  };
+}
+
+function isRecord(v: unknown): v is Record<string, unknown> {
+  return typeof v === 'object' && v !== null && !Array.isArray(v);
+}
+
+function reportReply(prompt: string) {
+  const found = jsonAfter(prompt, 'Top1 精算时间');
+  const top1 = isRecord(found) ? found : {};
+  const listed = jsonAfter(prompt, '候选Top3');
+  const top3 = Array.isArray(listed) ? listed.filter(isRecord) : [];
+  const name = String(top1.name || '推荐地点');
+  return {
+    reportMarkdown: [
+      `## 推荐结论：${name}`,
+      ``,
+      `### Top3对比`,
+      ...top3.map((c, i) => `- ${i + 1}. ${c.name}`),
+      ``,
+      `### 为什么这么选`,
+      `- 去${top1.goMin ?? '?'}分 + 玩${top1.playMin ?? '?'}分 + 回${top1.backMin ?? '?'}分，正好卡在空档里`,
+      ``,
+      `### 时间预算建议`,
+      `- 预留 10-15 分钟机动`,
+    ].join('\n'),
+    guide: [`出发前确认${name}的营业时间`, `到了先找个舒服的位置坐下`, `留 10 分钟机动再往回走`],
+  };
+}
+
+function eggReply(prompt: string) {
+  const place = lineAfter(prompt, '地点：').split('（')[0] || '这里';
+  const tasks: string[] = (() => {
+    try {
+      return JSON.parse(lineAfter(prompt, '可参考任务（可改写但不要更危险）：'));
+    } catch {
+      return [];
+    }
+  })();
+  return {
+    title: `样例挑战：${place}`,
+    story: `${place}藏着一枚“时间碎片”，完成下面的小任务就能解锁。`,
+    tasks: tasks.length >= 2 ? tasks.slice(0, 4) : [`在${place}慢走一圈`, `拍一张你最喜欢的角落`],
+  };
+}
+
+const REPLIES: Record<LlmTask, (prompt: string) => unknown> = {
+  intent: intentReply,
+  report: reportReply,
+  egg: eggReply,
+};
+
+// 流式时切成小段依次回调，模拟模型逐字输出
+const STREAM_CHUNK = 8;
+
+export async function stubChat(task: LlmTask, prompt: string, onDelta?: (text: string) => void): Promise<string> {
+  const content = JSON.stringify(REPLIES[task](prompt));
+  if (onDelta) for (let i = 0; i < content.length; i += STREAM_CHUNK) onDelta(content.slice(i, i + STREAM_CHUNK));
+  return content;
+}
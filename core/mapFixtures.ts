@@ -0,0 +1,48 @@
+import type { MapPlace, MapPoi } from './mapProvider';
+
+// Offline sample of Yichang POIs for MAP_PROVIDER=fixture. Fields follow MapPoi (what the AMap
+// provider normalizes to); `tags` are the extra search terms each place answers to, so every
+// keyword in the intent catalog finds something. Coordinates and hours are close to the real
+// places but are demo data, not a source of truth.
+
+export type FixturePoi = MapPoi & { tags: string[] };
+
+export const FIXTURE_PLACE: MapPlace = { adcode: '420502', citycode: '0717', city: '宜昌市' };
+
+const CAFE = '餐饮服务;咖啡厅;咖啡厅';
+const PARK = '风景名胜;公园广场;公园';
+const SCENIC = '风景名胜;风景名胜;风景名胜';
+
+export const FIXTURE_POIS: FixturePoi[] = [
+  // 咖啡 / 甜品
+  { id: 'fx-cafe-1', name: '江畔慢咖啡', category: CAFE, typecode: '050500', address: '西陵区沿江大道116号', location: '111.2862,30.6968', openTime: '09:00-22:00', rating: 4.6, costPerPerson: 32, tags: ['咖啡馆'] },
+  { id: 'fx-cafe-2', name: '夷陵广场精品咖啡', category: CAFE, typecode: '050500', address: '西陵区夷陵大道52号', location: '111.2958,30.6972', openTime: '08:30-21:30', rating: 4.4, costPerPerson: 28, tags: ['咖啡馆'] },
+  { id: 'fx-cafe-3', name: '磨基山下咖啡书房', category: CAFE, typecode: '050500', address: '点军区江南大道8号', location: '111.2695,30.6921', openTime: '10:00-20:00', rating: 4.7, costPerPerson: 36, tags: ['咖啡馆', '书店'] },
+  { id: 'fx-dessert-1', name: '云集路甜品铺', category: '餐饮服务;甜品店;甜品店', typecode: '050900', address: '西陵区云集路33号', location: '111.2903,30.7015', openTime: '11:00-22:30', rating: 4.5, costPerPerson: 25, tags: ['蛋糕', '奶茶'] },
+  // 小吃 / 夜市 / 烧烤 / 火锅
+  { id: 'fx-snack-1', name: '解放路小吃街', category: '餐饮服务;快餐厅;快餐厅', typecode: '050300', address: '西陵区解放路', location: '111.2921,30.6994', openTime: '10:00-23:00', rating: 4.2, costPerPerson: 20, tags: ['小吃'] },
+  { id: 'fx-night-1', name: '滨江夜市', category: '购物服务;综合市场;综合市场', typecode: '060700', address: '西陵区滨江路', location: '111.2878,30.6930', openTime: '18:00-次日01:00', rating: 4.3, costPerPerson: 40, tags: ['夜市', '小吃', '夜宵'] },
+  { id: 'fx-bbq-1', name: '老宜昌烧烤', category: '餐饮服务;中餐厅;特色/地方风味餐厅', typecode: '050117', address: '伍家岗区沿江大道218号', location: '111.3102,30.6801', openTime: '17:00-次日02:00', rating: 4.4, costPerPerson: 65, tags: ['烧烤', '烤串', '烤肉', '夜宵'] },
+  { id: 'fx-bbq-2', name: '三峡串串香', category: '餐饮服务;中餐厅;火锅店', typecode: '050117', address: '西陵区东山大道66号', location: '111.3005,30.7102', openTime: '11:00-23:30', rating: 4.1, costPerPerson: 58, tags: ['串串香', '麻辣烫', '夜宵'] },
+  { id: 'fx-hotpot-1', name: '江城重庆火锅', category: '餐饮服务;中餐厅;火锅店', typecode: '050117', address: '伍家岗区夷陵大道155号', location: '111.3061,30.6889', openTime: '11:00-次日01:00', rating: 4.5, costPerPerson: 88, tags: ['火锅', '重庆火锅', '麻辣烫'] },
+  { id: 'fx-hotpot-2', name: '宜昌牛肉火锅', category: '餐饮服务;中餐厅;火锅店', typecode: '050117', address: '西陵区西陵二路12号', location: '111.2843,30.7058', openTime: '10:30-22:30', rating: 4.3, costPerPerson: 75, tags: ['火锅', '牛肉火锅', '涮肉'] },
+  // 公园 / 江边 / 景点
+  { id: 'fx-park-1', name: '滨江公园', category: PARK, typecode: '110101', address: '西陵区沿江大道', location: '111.2831,30.6955', tags: ['江边', '散步'] },
+  { id: 'fx-park-2', name: '儿童公园', category: PARK, typecode: '110101', address: '西陵区夷陵大道', location: '111.2934,30.7063', openTime: '06:00-22:00', rating: 4.3, tags: [] },
+  { id: 'fx-park-3', name: '运河公园', category: PARK, typecode: '110101', address: '伍家岗区运河路', location: '111.3150,30.6950', tags: ['散步'] },
+  { id: 'fx-park-4', name: '磨基山公园', category: PARK, typecode: '110101', address: '点军区磨基山', location: '111.2620,30.6900', openTime: '06:00-22:00', rating: 4.6, tags: ['江边', '景点', '登山'] },
+  { id: 'fx-river-1', name: '胜利四路江边步道', category: '风景名胜;公园广场;城市广场', typecode: '110102', address: '伍家岗区沿江大道', location: '111.3040,30.6842', tags: ['江边', '散步'] },
+  { id: 'fx-scenic-1', name: '天然塔', category: SCENIC, typecode: '110200', address: '西陵区滨江路', location: '111.2795,30.7020', openTime: '08:00-18:00', rating: 4.2, tags: ['景点', '江边', '拍照'] },
+  { id: 'fx-scenic-2', name: '镇川门遗址', category: SCENIC, typecode: '110200', address: '西陵区滨江路', location: '111.2889,30.6921', rating: 4.0, tags: ['景点'] },
+  // 商场 / 影院
+  { id: 'fx-mall-1', name: '国贸大厦', category: '购物服务;商场;购物中心', typecode: '060101', address: '西陵区解放路1号', location: '111.2925,30.6978', openTime: '10:00-22:00', rating: 4.4, tags: ['商场'] },
+  { id: 'fx-mall-2', name: '伍家岗万达广场', category: '购物服务;商场;购物中心', typecode: '060101', address: '伍家岗区沿江大道188号', location: '111.3180,30.6680', openTime: '10:00-22:00', rating: 4.5, tags: ['商场'] },
+  { id: 'fx-mall-3', name: 'CBD国贸新天地', category: '购物服务;商场;购物中心', typecode: '060101', address: '西陵区东山大道106号', location: '111.3048,30.7046', openTime: '10:00-22:00', rating: 4.3, tags: ['商场'] },
+  { id: 'fx-movie-1', name: '万达影城(伍家岗店)', category: '体育休闲服务;影剧院;电影院', typecode: '080601', address: '伍家岗区沿江大道188号万达广场4层', location: '111.3182,30.6682', openTime: '09:30-次日01:00', rating: 4.6, costPerPerson: 45, tags: ['电影院'] },
+  { id: 'fx-movie-2', name: '国贸影城', category: '体育休闲服务;影剧院;电影院', typecode: '080601', address: '西陵区解放路1号国贸大厦6层', location: '111.2927,30.6980', openTime: '10:00-24:00', rating: 4.3, costPerPerson: 40, tags: ['电影院'] },
+  // 博物馆 / 展馆
+  { id: 'fx-museum-1', name: '宜昌博物馆', category: '科教文化服务;博物馆;博物馆', typecode: '140100', address: '伍家岗区求索路', location: '111.3330,30.6600', openTime: '09:00-17:00', rating: 4.8, tags: ['博物馆', '展馆'] },
+  { id: 'fx-museum-2', name: '宜昌规划展览馆', category: '科教文化服务;展览馆;展览馆', typecode: '140200', address: '西陵区沿江大道', location: '111.2850,30.6990', openTime: '09:00-17:00', rating: 4.4, tags: ['展馆'] },
+  // 温泉 / 汤泉
+  { id: 'fx-spa-1', name: '三峡汤泉会馆', category: '生活服务;洗浴推拿场所;洗浴推拿场所', typecode: '071400', address: '伍家岗区夷陵大道201号', location: '111.3125,30.6850', openTime: '10:00-次日02:00', rating: 4.5, costPerPerson: 128, tags: ['温泉', '汤泉', '泡汤', '汗蒸'] },
+];
@@ -0,0 +1,73 @@
+import { amapProvider } from './amapProvider';
+import type { EffortProfile } from './effort';
+import { fixtureMapProvider } from './fixtureMapProvider';
+import type { LocalParts } from './timeWindow';
+import type { TravelMatrix } from './travelMatrix';
+import type { Mode } from './travelMode';
+import type { Weather } from './weather';
+
+declare const process: { env: Record<string, string | undefined> };
+
+// 地图服务：POI 检索、路线规划、逆地理、静态图（外加距离矩阵和天气）。
+// 业务代码只认这里的归一化结构，不直接碰某家地图的原始返回；MAP_PROVIDER 选实现：
+// - amap（默认）：高德 WebService，需要 AMAP_WEB_SERVICE_KEY
+// - fixture：本地样例数据（core/mapFixtures.ts），不联网、不要 Key，本地演示和离线检查用
+
+export type MapProviderName = 'amap' | 'fixture';
+
+export type MapPoi = {
+  id: string;
+  name: string;
+  category: string; // 类别全称，如“餐饮服务;咖啡厅;咖啡厅”
+  typecode?: string; // 高德分类编码，意图目录按它归类
+  address: string;
+  location: string; // "lng,lat"
+  distanceMeter?: number;
+  openTime?: string; // 营业时间原文
+  rating?: number; // 0-5
+  costPerPerson?: number; // 人均（元）
+  tel?: string;
+  photoUrl?: string;
+};
+
+export type MapRoute = {
+  mode: Mode; // 实际用的方式（距离太近时公交会退成步行）
+  durationSec: number; // 0 表示没规划出来
+  polyline: string;
+  summary?: string; // 公交换乘概要
+  walkSec: number; // 其中步行的总用时
+  walkMaxSec: number; // 最长一段连续步行
+};
+
+export type MapPlace = { adcode: string; citycode: string; city: string };
+
+export type MapMarker = { label: string; color: string; location: string };
+
+export type MapProvider = {
+  name: MapProviderName;
+  searchAround(params: { location: string; keywords: string; radius: number; pageSize: number; page: number; city?: string }): Promise<MapPoi[]>;
+  route(params: {
+    mode: Mode;
+    origin: string;
+    destination: string;
+    city?: string; // 公交必填：城市名或 citycode
+    departAt?: LocalParts; // 公交按出发时刻查班次
+    effort?: EffortProfile;
+  }): Promise<MapRoute>;
+  reverseGeocode(location: string): Promise<MapPlace | null>;
+  staticMap(params: { center: string; zoom: number; size: string; markers: MapMarker[] }): Promise<{ contentType: string; bytes: Uint8Array }>;
+  weather(params: { adcode: string; at: LocalParts; forecast: boolean }): Promise<Weather | null>;
+  // 没有距离矩阵的实现由调用方按直线估算
+  travelMatrix?: TravelMatrix;
+};
+
+export function mapProviderName(): MapProviderName {
+  return String(process.env.MAP_PROVIDER || '').trim() === 'fixture' ? 'fixture' : 'amap';
+}
+
+// 高德缺 Key 时返回 null，由接口报 missing_env；signal 见 CoreRequest.signal（样例数据不联网，用不上）
+export function createMapProvider(signal?: AbortSignal): MapProvider | null {
+  if (mapProviderName() === 'fixture') return fixtureMapProvider();
+  const key = process.env.AMAP_WEB_SERVICE_KEY;
+  return key ? amapProvider(key, signal) : null;
+}
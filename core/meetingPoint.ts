@@ -0,0 +1,43 @@
+// 多人碰头：每个人从自己的起点、按自己的空档出发，到同一个地点碰面再各自回去。
+// 能一起待的时间 = 最晚到的人到达 ~ 最早得走的人离开；每个人的“去 + 回”都必须落在自己的空档里。
+
+export type Fairness = 'minmax' | 'total';
+
+export type MemberTrip = {
+  departAt: number; // 出发时刻（ms）
+  endAt: number; // 必须回到起点的时刻（ms）
+  goMin: number;
+  backMin: number;
+};
+
+export type MeetingSlot = {
+  startAt: number; // 人到齐的时刻
+  endAt: number; // 第一个人得走的时刻
+  meetMin: number; // 能一起待的分钟数（<0 表示凑不到一起）
+  arriveAt: number[];
+  leaveAt: number[];
+};
+
+export function meetingSlot(trips: MemberTrip[]): MeetingSlot {
+  const arriveAt = trips.map((t) => t.departAt + t.goMin * 60000);
+  const leaveAt = trips.map((t) => t.endAt - t.backMin * 60000);
+  const startAt = Math.max(...arriveAt);
+  const endAt = Math.min(...leaveAt);
+  return { startAt, endAt, meetMin: Math.floor((endAt - startAt) / 60000), arriveAt, leaveAt };
+}
+
+// 越小越公平：minmax 看路上最久的那个人（总和只用来打破平局），total 看所有人路上时间之和
+export function fairnessCost(trips: Array<{ goMin: number; backMin: number }>, fairness: Fairness) {
+  const each = trips.map((t) => t.goMin + t.backMin);
+  const total = each.reduce((a, b) => a + b, 0);
+  return fairness === 'total' ? total : Math.max(...each) + total * 0.01;
+}
+
+// 所有人起点的中心（经纬度直接平均，城市范围内足够）
+export function centroid(points: Array<{ lng: number; lat: number }>) {
+  const n = Math.max(1, points.length);
+  return {
+    lng: points.reduce((a, p) => a + p.lng, 0) / n,
+    lat: points.reduce((a, p) => a + p.lat, 0) / n,
+  };
+}
@@ -0,0 +1,125 @@
+import { withoutFlatShan } from './effort';
+import type { LocalParts } from './timeWindow';
+
+declare const process: { env: Record<string, string | undefined> };
+
+// 夜间安全：按停留时段把一天分成 白天 / 傍晚（天黑后）/ 深夜，逐条规则给候选降权、剔除或加分。
+// 级别（NIGHT_SAFETY 或请求里的 nightSafety）：
+// - strict（默认）：规则里的“剔除”生效
+// - soft：“剔除”降级为强降权，仍可能被推荐
+// - off：不做夜间处理
+// 时刻可用 NIGHT_DUSK / NIGHT_LATE / NIGHT_DAWN（HH:mm）调整。
+
+export type NightSafetyLevel = 'off' | 'soft' | 'strict';
+export type NightPhase = 'day' | 'dusk' | 'late';
+
+export type NightRule = {
+  id: string;
+  label: string;
+  match: (poi: { name: string; category: string }) => boolean;
+  // 各时段的处理：数字为权重系数，'exclude' 为剔除（soft 级别下按 SOFT_EXCLUDE_FACTOR 降权）
+  dusk: number | 'exclude';
+  late: number | 'exclude';
+};
+
+export type NightSafetyConfig = { level: NightSafetyLevel; duskMin: number; lateMin: number; dawnMin: number };
+
+export type NightVerdict = {
+  excluded: boolean;
+  factor: number;
+  fired: Array<{ id: string; label: string; effect: 'exclude' | 'penalize' | 'boost' }>;
+};
+
+const SOFT_EXCLUDE_FACTOR = 0.15;
+
+const SCENIC_REMOTE = /山|峡|洞|寺|古道|栈道|森林|郊野|水库/;
+
+export const NIGHT_RULES: NightRule[] = [
+  {
+    id: 'remote_scenic',
+    label: '山林/峡谷/郊野景点天黑后偏僻、没照明',
+    match: (p) => /风景名胜/.test(p.category) && SCENIC_REMOTE.test(withoutFlatShan(p.name)),
+    dusk: 'exclude',
+    late: 'exclude',
+  },
+  {
+    id: 'waterfront',
+    label: '江边/湖边/湿地临水，夜里视线差',
+    match: (p) => /江边|滨江|江滩|河边|河畔|湖|码头|渡口|湿地/.test(`${p.name} ${p.category}`),
+    dusk: 0.5,
+    late: 'exclude',
+  },
+  {
+    id: 'park',
+    label: '公园绿地夜里人少',
+    // “xx广场”多半是商场或写字楼，只认高德的公园广场类目
+    match: (p) => /公园广场/.test(p.category) || /公园|绿地|绿道|植物园/.test(p.name),
+    dusk: 0.6,
+    late: 0.25,
+  },
+  {
+    id: 'lit_busy',
+    label: '商场/夜市/影院/餐饮灯亮人多',
+    match: (p) =>
+      /商场|购物中心|百货|步行街|夜市|电影院|影城|KTV|便利店/.test(`${p.name} ${p.category}`) || /^餐饮服务/.test(p.category),
+    dusk: 1.2,
+    late: 1.4,
+  },
+];
+
+function hhmmToMin(v: string | undefined, fallback: number) {
+  const m = /^(\d{1,2}):(\d{2})$/.exec(String(v || '').trim());
+  if (!m) return fallback;
+  const n = Number(m[1]) * 60 + Number(m[2]);
+  return n >= 0 && n < 24 * 60 ? n : fallback;
+}
+
+export function nightSafetyConfig(level?: NightSafetyLevel): NightSafetyConfig {
+  const envLevel = String(process.env.NIGHT_SAFETY || '').trim();
+  return {
+    level: level ?? (envLevel === 'off' || envLevel === 'soft' ? envLevel : 'strict'),
+    duskMin: hhmmToMin(process.env.NIGHT_DUSK, 19 * 60),
+    lateMin: hhmmToMin(process.env.NIGHT_LATE, 22 * 60),
+    dawnMin: hhmmToMin(process.env.NIGHT_DAWN, 6 * 60),
+  };
+}
+
+function phaseAt(minuteOfDay: number, cfg: NightSafetyConfig): NightPhase {
+  if (minuteOfDay < cfg.dawnMin || minuteOfDay >= cfg.lateMin) return 'late';
+  if (minuteOfDay >= cfg.duskMin) return 'dusk';
+  return 'day';
+}
+
+// 停留期间最“黑”的时段：从到达开始每 15 分钟采样一次
+export function nightPhaseDuring(arrive: LocalParts, stayMin: number, cfg: NightSafetyConfig): NightPhase {
+  if (cfg.level === 'off') return 'day';
+  let worst: NightPhase = 'day';
+  for (let t = 0; t <= Math.max(0, stayMin); t += 15) {
+    const p = phaseAt((arrive.minuteOfDay + t) % (24 * 60), cfg);
+    if (p === 'late') return 'late';
+    if (p === 'dusk') worst = 'dusk';
+  }
+  return worst;
+}
+
+export function phaseLabel(phase: NightPhase) {
+  return phase === 'late' ? '深夜' : phase === 'dusk' ? '天黑后' : '白天';
+}
+
+export function judgeNightSafety(poi: { name: string; category: string }, phase: NightPhase, cfg: NightSafetyConfig): NightVerdict {
+  const verdict: NightVerdict = { excluded: false, factor: 1, fired: [] };
+  if (phase === 'day' || cfg.level === 'off') return verdict;
+  for (const rule of NIGHT_RULES) {
+    if (!rule.match(poi)) continue;
+    const action = phase === 'late' ? rule.late : rule.dusk;
+    if (action === 'exclude') {
+      if (cfg.level === 'strict') verdict.excluded = true;
+      else verdict.factor *= SOFT_EXCLUDE_FACTOR;
+      verdict.fired.push({ id: rule.id, label: rule.label, effect: cfg.level === 'strict' ? 'exclude' : 'penalize' });
+    } else if (action !== 1) {
+      verdict.factor *= action;
+      verdict.fired.push({ id: rule.id, label: rule.label, effect: action > 1 ? 'boost' : 'penalize' });
+    }
+  }
+  return verdict;
+}
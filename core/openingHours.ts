@@ -0,0 +1,149 @@
+// Business-hours parsing for AMap POIs (biz_ext.opentime2 / open_time).
+// The strings are free text typed by merchants, e.g.
+//   "08:00-22:00"
+//   "周一至周五 09:00-17:00；周六至周日 10:00-18:00"
+//   "周二至周日 09:00-17:00(16:30停止入馆)，周一闭馆"
+//   "18:00-次日02:00" / "24小时营业"
+// Anything we cannot understand is treated as "unknown" and never used to reject a POI.
+
+export type OpeningHours = {
+  raw: string;
+  // 下标为星期（0=周日）；null=该天没写（未知），[]=明确不营业；区间 end 可超过 1440（营业到次日）
+  byDay: Array<Array<[number, number]> | null>;
+  // 停止入场时间（分钟），只约束到达时刻
+  lastEntryMin?: number;
+};
+
+export type OpenCheck =
+  | { status: 'unknown' }
+  | { status: 'open'; openMin: number }
+  // 到达时开着，但停留期间会关门
+  | { status: 'partial'; openMin: number; reason: string }
+  | { status: 'closed'; openMin: 0; reason: string };
+
+const ALL_DAYS = [0, 1, 2, 3, 4, 5, 6];
+const DAY_NUM: Record<string, number> = { 一: 1, 二: 2, 三: 3, 四: 4, 五: 5, 六: 6, 日: 7, 天: 7 };
+const WEEKDAY_LABEL = ['周日', '周一', '周二', '周三', '周四', '周五', '周六'];
+
+const RANGE_RE = /(\d{1,2})[:：](\d{2})\s*[-~～—–至到]+\s*(次日|翌日)?\s*(\d{1,2})[:：](\d{2})/g;
+const LAST_ENTRY_RE = /(\d{1,2})[:：](\d{2})\s*(?:后)?\s*(?:停止|止)(?:入馆|入园|入场|售票|检票|票|入)/;
+const CLOSED_RE = /闭馆|闭园|休馆|休息|不营业|歇业|不开放|休业/;
+
+function hhmm(min: number) {
+  const m = ((min % 1440) + 1440) % 1440;
+  const s = `${String(Math.floor(m / 60)).padStart(2, '0')}:${String(m % 60).padStart(2, '0')}`;
+  return min >= 1440 ? `次日${s}` : s;
+}
+
+function parseDays(text: string): number[] | null {
+  if (/每天|每日|全年|天天|周一\s*[至到\-~—]\s*周[日天]/.test(text)) return ALL_DAYS;
+  if (/工作日/.test(text)) return [1, 2, 3, 4, 5];
+  if (/周末|双休日/.test(text)) return [0, 6];
+  const days = new Set<number>();
+  const rangeRe = /(?:周|星期)([一二三四五六日天])\s*[至到\-~～—–]\s*(?:周|星期)?([一二三四五六日天])/g;
+  let m: RegExpExecArray | null;
+  let rest = text;
+  while ((m = rangeRe.exec(text))) {
+    const a = DAY_NUM[m[1]];
+    const b = DAY_NUM[m[2]];
+    for (let d = a; ; d = (d % 7) + 1) {
+      days.add(d % 7);
+      if (d === b) break;
+    }
+    rest = rest.replace(m[0], ' ');
+  }
+  const singleRe = /(?:周|星期)([一二三四五六日天])/g;
+  while ((m = singleRe.exec(rest))) days.add(DAY_NUM[m[1]] % 7);
+  return days.size ? [...days].sort() : null;
+}
+
+export function parseOpeningHours(raw: string | undefined | null): OpeningHours | null {
+  const text = String(raw || '').trim();
+  if (!text) return null;
+  const byDay: OpeningHours['byDay'] = Array.from({ length: 7 }, () => null);
+
+  if (/24\s*小时|全天营业|全天开放/.test(text)) {
+    for (const d of ALL_DAYS) byDay[d] = [[0, 1440]];
+    return { raw: text, byDay };
+  }
+
+  let lastEntryMin: number | undefined;
+  const le = LAST_ENTRY_RE.exec(text);
+  if (le) lastEntryMin = Number(le[1]) * 60 + Number(le[2]);
+
+  // 分号/换行分段；逗号既可能分隔“星期段”也可能分隔同一天的多个时段，段内没写星期就沿用上一段
+  const segments = text
+    .replace(/[（(][^)）]*[)）]/g, (x) => (CLOSED_RE.test(x) ? x : ' '))
+    .split(/[;；\n,，|]/)
+    .map((x) => x.trim())
+    .filter(Boolean);
+  let lastDays: number[] | null = null;
+  let parsedAny = false;
+  for (const seg of segments) {
+    const ranges: Array<[number, number]> = [];
+    RANGE_RE.lastIndex = 0;
+    let m: RegExpExecArray | null;
+    while ((m = RANGE_RE.exec(seg))) {
+      const start = Number(m[1]) * 60 + Number(m[2]);
+      let end = Number(m[4]) * 60 + Number(m[5]);
+      if (start > 1440 || end > 1440) continue;
+      if (m[3] || end <= start) end += 1440;
+      ranges.push([start, end]);
+    }
+    const days = parseDays(seg);
+    if (!ranges.length) {
+      if (days && CLOSED_RE.test(seg)) {
+        for (const d of days) byDay[d] = [];
+        parsedAny = true;
+      }
+      if (days) lastDays = days;
+      continue;
+    }
+    const target = days ?? lastDays ?? ALL_DAYS;
+    for (const d of target) {
+      const cur = byDay[d];
+      byDay[d] = cur && cur.length ? [...cur, ...ranges] : [...ranges];
+    }
+    lastDays = target;
+    parsedAny = true;
+  }
+  if (!parsedAny) return null;
+  return { raw: text, byDay, lastEntryMin };
+}
+
+// 到达时刻（本地星期 + 当天分钟）起，停留 stayMin 分钟，这段时间里开不开门
+export function checkOpenDuring(
+  hours: OpeningHours,
+  arrival: { weekday: number; minuteOfDay: number },
+  stayMin: number
+): OpenCheck {
+  const wd = arrival.weekday;
+  const t = arrival.minuteOfDay;
+  const today = hours.byDay[wd];
+  const prev = hours.byDay[(wd + 6) % 7];
+  // 前一天营业到次日的部分，平移到今天
+  const carried = (prev || []).filter(([, e]) => e > 1440).map(([s, e]) => [s - 1440, e - 1440] as [number, number]);
+  if (today === null && !carried.some(([s, e]) => s <= t && t < e)) return { status: 'unknown' };
+
+  const intervals = [...carried, ...(today || [])];
+  const hit = intervals.find(([s, e]) => s <= t && t < e);
+  if (!hit) {
+    if (today && today.length === 0) return { status: 'closed', openMin: 0, reason: `${WEEKDAY_LABEL[wd]}不营业` };
+    const next = intervals.filter(([s]) => s > t).sort((a, b) => a[0] - b[0])[0];
+    return {
+      status: 'closed',
+      openMin: 0,
+      reason: next ? `到达约 ${hhmm(t)}，要到 ${hhmm(next[0])} 才开门` : `到达约 ${hhmm(t)}，已经关门`,
+    };
+  }
+  if (typeof hours.lastEntryMin === 'number' && hours.lastEntryMin < hit[1] && hours.lastEntryMin > hit[0] && t > hours.lastEntryMin) {
+    return { status: 'closed', openMin: 0, reason: `到达约 ${hhmm(t)}，${hhmm(hours.lastEntryMin)} 已停止入场` };
+  }
+  // 营业到 24:00、次日 0 点接着开（如 24 小时营业）：两天的时段连起来算，别当成半夜关门
+  const tomorrow = hours.byDay[(wd + 1) % 7] || [];
+  const cont = hit[1] === 1440 ? tomorrow.find(([s]) => s === 0) : undefined;
+  const end = cont ? 1440 + cont[1] : hit[1];
+  const openMin = end - t;
+  if (openMin >= stayMin) return { status: 'open', openMin };
+  return { status: 'partial', openMin, reason: `到达约 ${hhmm(t)}，${hhmm(end)} 关门，只能待 ${openMin} 分钟` };
+}
@@ -0,0 +1,172 @@
+declare const process: { env: Record<string, string | undefined> };
+
+// 排序策略：推荐里“离多远合适、距离/新鲜感/命中各占多少、类别冲突罚多狠”都在这里配。
+// 预设只是一张参数表，新增策略加一行即可；请求里用 strategy 选，RANKING_STRATEGY 改默认。
+// 调参和对比用 scripts/eval-ranking.ts 跑录下来的候选集。
+
+export type RankingStrategyName = 'balanced' | 'nearby-first' | 'explore-far' | 'intent-strict';
+
+export type RankingWeights = { closeness: number; novelty: number; match: number };
+
+export interface RankingStrategy {
+  name: RankingStrategyName;
+  label: string;
+  // 理想单程用时（分钟）：离这个用时越近 closeness 越高
+  idealOneWay(availableMin: number): number;
+  closeness(oneWayMin: number, idealOneWay: number): number;
+  weights(intentStrong: boolean): RankingWeights;
+  affinityFactor(affinity: number, intentStrong: boolean): number;
+  // 强意图且有足够同类候选时，亲和度低于它的直接剔除
+  affinityCutoff: number;
+}
+
+type AffinityCurve = { gain: number; min: number; max: number };
+
+type RankingPreset = {
+  label: string;
+  idealShare: number; // 理想单程 = 可用时长 × idealShare，再夹到 [idealMin, idealMax]
+  idealMin: number;
+  idealMax: number;
+  // 比理想近/远时的扣分斜率：0 表示这一侧不扣分
+  nearPenalty: number;
+  farPenalty: number;
+  strong: RankingWeights;
+  weak: RankingWeights;
+  affinityStrong: AffinityCurve;
+  affinityWeak: AffinityCurve;
+  affinityCutoff: number;
+};
+
+const BALANCED_AFFINITY = {
+  affinityStrong: { gain: 1.2, min: 0.05, max: 2.6 },
+  affinityWeak: { gain: 0.6, min: 0.2, max: 1.8 },
+};
+
+const PRESETS: Record<RankingStrategyName, RankingPreset> = {
+  // 原来写死在 recommend 里的那套参数
+  balanced: {
+    label: '均衡',
+    idealShare: 0.2,
+    idealMin: 10,
+    idealMax: 30,
+    nearPenalty: 1,
+    farPenalty: 1,
+    strong: { closeness: 0.4, novelty: 0.2, match: 0.2 },
+    weak: { closeness: 0.55, novelty: 0.25, match: 0.2 },
+    ...BALANCED_AFFINITY,
+    affinityCutoff: -0.2,
+  },
+  // 越近越好：比理想近不扣分，远了扣得更快
+  'nearby-first': {
+    label: '就近优先',
+    idealShare: 0.1,
+    idealMin: 5,
+    idealMax: 15,
+    nearPenalty: 0,
+    farPenalty: 1.5,
+    strong: { closeness: 0.55, novelty: 0.1, match: 0.2 },
+    weak: { closeness: 0.7, novelty: 0.15, match: 0.2 },
+    ...BALANCED_AFFINITY,
+    affinityCutoff: -0.2,
+  },
+  // 时间够就走远一点：理想用时更长、近处扣分更重，新鲜感占比更高
+  'explore-far': {
+    label: '走远一点',
+    idealShare: 0.3,
+    idealMin: 15,
+    idealMax: 45,
+    nearPenalty: 1.5,
+    farPenalty: 0.6,
+    strong: { closeness: 0.35, novelty: 0.35, match: 0.2 },
+    weak: { closeness: 0.45, novelty: 0.4, match: 0.15 },
+    ...BALANCED_AFFINITY,
+    affinityCutoff: -0.2,
+  },
+  // 一定要对口：命中和亲和度说了算，距离其次
+  'intent-strict': {
+    label: '严格对口',
+    idealShare: 0.2,
+    idealMin: 10,
+    idealMax: 30,
+    nearPenalty: 1,
+    farPenalty: 1,
+    strong: { closeness: 0.3, novelty: 0.1, match: 0.45 },
+    weak: { closeness: 0.45, novelty: 0.15, match: 0.35 },
+    affinityStrong: { gain: 1.8, min: 0.02, max: 3 },
+    affinityWeak: { gain: 1, min: 0.1, max: 2.2 },
+    affinityCutoff: -0.1,
+  },
+};
+
+export const RANKING_STRATEGIES = Object.keys(PRESETS) as RankingStrategyName[];
+
+function clamp(n: number, min: number, max: number) {
+  return Math.max(min, Math.min(max, n));
+}
+
+function fromPreset(name: RankingStrategyName, p: RankingPreset): RankingStrategy {
+  return {
+    name,
+    label: p.label,
+    idealOneWay: (availableMin) => clamp(Math.round(availableMin * p.idealShare), p.idealMin, p.idealMax),
+    closeness: (oneWayMin, ideal) => {
+      const diff = oneWayMin - ideal;
+      const slope = diff < 0 ? p.nearPenalty : p.farPenalty;
+      return 1 - Math.min(1, (slope * Math.abs(diff)) / Math.max(1, ideal));
+    },
+    weights: (intentStrong) => (intentStrong ? p.strong : p.weak),
+    affinityFactor: (affinity, intentStrong) => {
+      const c = intentStrong ? p.affinityStrong : p.affinityWeak;
+      return clamp(1 + affinity * c.gain, c.min, c.max);
+    },
+    affinityCutoff: p.affinityCutoff,
+  };
+}
+
+export function isRankingStrategyName(v: unknown): v is RankingStrategyName {
+  return typeof v === 'string' && (RANKING_STRATEGIES as string[]).includes(v);
+}
+
+// 请求指定 > RANKING_STRATEGY > balanced
+export function resolveRankingStrategy(requested?: RankingStrategyName): {
+  strategy: RankingStrategy;
+  source: 'request' | 'config' | 'default';
+} {
+  if (requested) return { strategy: fromPreset(requested, PRESETS[requested]), source: 'request' };
+  const env = String(process.env.RANKING_STRATEGY || '').trim();
+  if (isRankingStrategyName(env)) return { strategy: fromPreset(env, PRESETS[env]), source: 'config' };
+  return { strategy: fromPreset('balanced', PRESETS.balanced), source: 'default' };
+}
+
+// 单个候选的打分输入：和策略无关的部分（距离以外的各项系数由 recommend 算好）
+export type RankingFeatures = {
+  novelty: number;
+  match: number;
+  affinity: number;
+  factors: { hours: number; weather: number; rating: number; comfort: number; night: number };
+};
+
+export function scoreWithStrategy(
+  strategy: RankingStrategy,
+  f: RankingFeatures,
+  ctx: { travelMin: number; idealOneWay: number; intentStrong: boolean },
+) {
+  const weights = strategy.weights(ctx.intentStrong);
+  const closeness = strategy.closeness(ctx.travelMin / 2, ctx.idealOneWay);
+  const base = (weights.closeness * closeness + weights.novelty * f.novelty + weights.match * f.match) * 100;
+  const factors = { affinity: strategy.affinityFactor(f.affinity, ctx.intentStrong), ...f.factors };
+  const weight = Object.values(factors).reduce((a, x) => a * x, base);
+  return { closeness, weights, base, factors, weight };
+}
+
+// 录下来的候选集（debug 响应里的 candidateSet），给离线评测回放用。
+// accept 是人工标注“推这几个算对”，可不填。
+export type RecordedCandidateSet = {
+  mood: string;
+  availableMin: number;
+  intent: { primary: string; strong: boolean };
+  minStayMin: number;
+  minOneWay: number;
+  candidates: Array<RankingFeatures & { name: string; category: string; oneWayMin: number; travelMin: number }>;
+  accept?: string[];
+};
@@ -0,0 +1,2184 @@
+import axios from 'axios';
+import { z } from 'zod';
+import { localParts, resolveTimeWindow, MAX_WINDOW_MIN, type LocalParts, type TimeWindow } from './timeWindow';
+import { checkOpenDuring, parseOpeningHours, type OpeningHours } from './openingHours';
+import { describeWeather, fetchWeather, weatherIndoorBias } from './weather';
+import { createTravelMatrix, type MatrixCell } from './travelMatrix';
+import { computeIsochrone, isInsidePolygon } from './isochrone';
+import { createLlmClient, partialJsonString } from './llm';
+import { createMapProvider, type MapPoi, type MapProvider, type MapRoute } from './mapProvider';
+import { upstreamErrorDetail, upstreamNow } from './upstream';
+import { estTravelMin, matrixBasis, matrixMin, metersPerMin, TRANSIT_OVERHEAD_MIN, type Mode } from './travelMode';
+import { effortFactor, effortSettings, inferEffortProfile, isStairHeavy, type EffortProfile } from './effort';
+import { centroid, fairnessCost, meetingSlot, type MemberTrip } from './meetingPoint';
+import {
+  judgeNightSafety,
+  nightPhaseDuring,
+  nightSafetyConfig,
+  phaseLabel,
+  type NightPhase,
+  type NightSafetyConfig,
+  type NightVerdict,
+} from './nightSafety';
+import {
+  defaultBrowseKeywords,
+  defaultMinStayMin,
+  inferIntent,
+  INTENT_IDS,
+  poiAffinity,
+  topicKeywords,
+  type IntentPrimary,
+} from './intents';
+import { reply, type CoreRequest, type CoreResponse } from './http';
+import { resolveRankingStrategy, scoreWithStrategy, type RankingFeatures, type RecordedCandidateSet } from './ranking';
+
+declare const process: { env: Record<string, string | undefined> };
+
+// User preference (contest demo): AI must try hard to output; allow waiting.
+// Still keep a fallback so the core (AMap) flow never breaks.
+const GLM_TIMEOUT_REPORT_MS = Number(process.env.GLM_TIMEOUT_REPORT_MS || 15000);
+const GLM_MAX_RETRY = Number(process.env.GLM_MAX_RETRY || 2);
+// Intent parsing sits in front of the POI search, so it gets a hard latency budget (0 disables it).
+const GLM_TIMEOUT_INTENT_MS = Number(process.env.GLM_TIMEOUT_INTENT_MS ?? 2500);
+// Exact routing is the slow part on Vercel: cap how many ranked candidates we try before giving up.
+const ROUTE_MAX_ATTEMPTS = Number(process.env.ROUTE_MAX_ATTEMPTS || 3);
+// One batched distance-matrix call re-times this many top candidates before the pick.
+const MATRIX_TOP_N = Number(process.env.MATRIX_TOP_N || 15);
+
+type CacheEntry<T> = { value: T; expiresAt: number };
+function cacheGet<T>(m: Map<string, CacheEntry<T>>, key: string): T | null {
+  const hit = m.get(key);
+  if (!hit) return null;
+  if (Date.now() > hit.expiresAt) {
+    m.delete(key);
+    return null;
+  }
+  return hit.value;
+}
+function cacheSet<T>(m: Map<string, CacheEntry<T>>, key: string, value: T, ttlMs: number) {
+  m.set(key, { value, expiresAt: Date.now() + ttlMs });
+}
+const intentCache = new Map<string, CacheEntry<IntentProfile>>();
+
+const GlmOneCallSchema = z.object({
+  reportMarkdown: z.string(),
+  guide: z.array(z.string()).min(3).max(6),
+});
+const guideCache = new Map<string, CacheEntry<z.infer<typeof GlmOneCallSchema> & { source: 'glm' }>>();
+
+async function glmReportAndGuide(
+  params: {
+    mood: string;
+    goMode: Mode;
+    backMode: Mode;
+    date: string; // 出发当天 YYYY-MM-DD（本地）
+    startTime: string;
+    endTime: string;
+    availableMin: number;
+    minStayMin: number;
+    weather?: string; // 例如 “中雨 17℃，优先推荐…室内去处”
+    effort?: string; // 非正常体力档位时的说明，例如 “少走路：单段步行不超过 15 分钟”
+    night?: string; // 夜间安全规则触发时的说明
+    intent: { primaryIntent: string; keywords: string[] };
+    candidatesTop3: Array<{
+      name: string;
+      category: string;
+      address: string;
+      oneWayMinEst: number;
+      playMinEst: number;
+      rating?: number;
+      costPerPerson?: number;
+    }>;
+    chosenTop1: {
+      name: string;
+      category: string;
+      address: string;
+      goMin: number;
+      backMin: number;
+      playMin: number;
+      rating?: number;
+      costPerPerson?: number;
+    };
+    // 单程：最后去终点而不是回起点（backMin 即“到终点”用时）
+    oneWay?: boolean;
+    // 串联行程（可选）：按顺序的每一站 + 到达该站的路程
+    itinerary?: Array<{ name: string; stayMin: number; legMin: number }>;
+    // 多人碰头（可选）：每个人的交通方式和往返用时；chosenTop1 的 goMin/backMin 取最久的那个人
+    group?: Array<{ name: string; goMode: Mode; goMin: number; backMin: number }>;
+  },
+  onReport?: (delta: string) => void,
+  signal?: AbortSignal
+) {
+  const fallbackGuide = [
+    `${params.startTime} 出发，${modeLabel(params.goMode)}约 ${params.chosenTop1.goMin} 分钟可到。`,
+    `建议停留约 ${params.chosenTop1.playMin} 分钟，随手逛逛/拍照/吃点小东西。`,
+    `${params.oneWay ? '去终点' : '返程'}${modeLabel(params.backMode)}预计 ${params.chosenTop1.backMin} 分钟，整体时间正好卡在空档里。`,
+    `小贴士：留 10-15 分钟机动更舒服。`,
+  ];
+  const modeText =
+    params.goMode === params.backMode
+      ? modeLabel(params.goMode)
+      : `去${modeLabel(params.goMode)} / 回${modeLabel(params.backMode)}`;
+
+  const fallbackReport = [
+    `## 推荐结论：${params.chosenTop1.name}`,
+    ``,
+    `### 你的意图`,
+    params.mood ? `- ${params.mood}` : `- （未填写）`,
+    `- 意图识别：${params.intent.primaryIntent}（规则兜底）`,
+    ``,
+    `### Top3对比（估算）`,
+    ...params.candidatesTop3.map(
+      (c, idx) => `- **${idx + 1}. ${c.name}**（${c.category}）· 预估单程 ${c.oneWayMinEst} 分 · 预估可停留 ${c.playMinEst} 分`
+    ),
+    ``,
+    `### 为什么这么选`,
+    `- 时间闭环：去${params.chosenTop1.goMin}分（${modeLabel(params.goMode)}） + 玩${params.chosenTop1.playMin}分 + ${params.oneWay ? '到终点' : '回'}${params.chosenTop1.backMin}分（${modeLabel(params.backMode)}）`,
+    ...(params.itinerary?.length
+      ? [`- 串联行程：${params.itinerary.map((s) => `${s.name}（停${s.stayMin}分）`).join(' → ')} → ${params.oneWay ? '终点' : '回起点'}`]
+      : []),
+    ...(params.group?.length
+      ? [`- 碰头：${params.group.map((g) => `${g.name} ${modeLabel(g.goMode)}${g.goMin}分`).join(' / ')}，一起待 ${params.chosenTop1.playMin} 分`]
+      : []),
+    `- 交通方式：${modeText}`,
+    ...(params.weather ? [`- 天气：${params.weather}`] : []),
+    ...(params.effort ? [`- 体力：${params.effort}`] : []),
+    ...(params.night ? [`- 夜间：${params.night}`] : []),
+    params.mood ? `- 偏好提示：${params.mood}` : `- 随机小确幸`,
+    ``,
+    `### 时间预算建议`,
+    `- 建议预留 10-15 分钟机动`,
+  ].join('\n');
+
+  const fallback = { reportMarkdown: fallbackReport, guide: fallbackGuide, source: 'rule' as const };
+  const llm = createLlmClient();
+  if (!llm) return fallback;
+
+  const cacheKey = JSON.stringify({
+    mood: params.mood || '',
+    goMode: params.goMode,
+    backMode: params.backMode,
+    date: params.date,
+    weather: params.weather || '',
+    effort: params.effort || '',
+    night: params.night || '',
+    startTime: params.startTime,
+    endTime: params.endTime,
+    minStayMin: params.minStayMin,
+    intent: params.intent,
+    c3: params.candidatesTop3.map((c) => [c.name, c.category, c.oneWayMinEst, c.playMinEst]),
+    top1: [params.chosenTop1.name, params.chosenTop1.goMin, params.chosenTop1.backMin, params.chosenTop1.playMin],
+    itinerary: params.itinerary || null,
+    group: params.group || null,
+    oneWay: Boolean(params.oneWay),
+  });
+  const cached = cacheGet(guideCache, `onecall:${cacheKey}`);
+  if (cached) {
+    onReport?.(cached.reportMarkdown);
+    return cached;
+  }
+
+  const prompt = [
+    `你是“临时空闲去哪儿”的决策助手。请基于给定候选 Top3 与已确定的 Top1 精算时间，输出一份可直接展示的报告 + 轻攻略。`,
+    `硬性约束：不得编造地点；不得添加候选列表外的地点名；用中文；避免安全风险（不建议夜间/偏僻）。`,
+    `输入：交通方式=${modeText}；时间段=${params.date} ${params.startTime}-${params.endTime}（可用${params.availableMin}分钟）；最短停留=${params.minStayMin}分钟；用户偏好=${params.mood || '（未填写）'}。`,
+    ...(params.weather ? [`天气：${params.weather}（文案里顺带提醒带伞/防晒，别建议长时间户外）`] : []),
+    ...(params.effort ? [`体力：${params.effort}（攻略别安排爬坡、台阶和长距离步行）`] : []),
+    ...(params.night ? [`夜间：${params.night}（攻略提醒结伴、走亮处和大路，别安排临水/林间活动）`] : []),
+    ...(params.oneWay ? [`路线类型：单程（从起点出发，玩完直接去终点，不回起点；backMin 为到终点用时）`] : []),
+    `意图（规则兜底）：primaryIntent=${params.intent.primaryIntent}；keywords=${params.intent.keywords.join('、') || '（无）'}`,
+    ``,
+    `候选Top3（估算）：`,
+    JSON.stringify(
+      params.candidatesTop3.map((c, index) => ({
+        index,
+        name: c.name,
+        category: c.category,
+        address: c.address,
+        oneWayMinEst: c.oneWayMinEst,
+        playMinEst: c.playMinEst,
+        rating: c.rating,
+        costPerPerson: c.costPerPerson,
+      })),
+      null,
+      2
+    ),
+    ``,
+    `Top1 精算时间（必须在报告中体现闭环）：`,
+    JSON.stringify(params.chosenTop1, null, 2),
+    ...(params.itinerary?.length
+      ? [
+          ``,
+          `串联行程（按顺序，legMin=到达该站的路程分钟；报告需按顺序介绍每一站）：`,
+          JSON.stringify(params.itinerary, null, 2),
+        ]
+      : []),
+    ...(params.group?.length
+      ? [
+          ``,
+          `多人碰头（各自从不同起点出发，在 Top1 碰面；报告需说明每个人路上多久、为什么这里对大家都公平）：`,
+          JSON.stringify(params.group, null, 2),
+        ]
+      : []),
+    ``,
+    `请严格输出 JSON（不要 Markdown 包裹，不要多余文本）。格式：`,
+    `{"reportMarkdown":"...markdown...","guide":["...","...","...","..."]}`,
+    `reportMarkdown 必须包含：## 推荐结论、### Top3对比、### 为什么这么选、### 时间预算建议`,
+    `guide 要求：3-5条，每条<=28字，具体可执行，不要编造不存在的项目。`,
+  ].join('\n');
+
+  // 流式：从还没写完的 JSON 里取 reportMarkdown，只把新增的部分往外推
+  let raw = '';
+  let sent = 0;
+  const onDelta = onReport
+    ? (text: string) => {
+        raw += text;
+        const md = partialJsonString(raw, 'reportMarkdown');
+        if (md.length <= sent) return;
+        onReport(md.slice(sent));
+        sent = md.length;
+      }
+    : undefined;
+
+  try {
+    const parsed = await llm.json({
+      task: 'report',
+      prompt,
+      schema: GlmOneCallSchema,
+      temperature: 0.5,
+      timeoutMs: GLM_TIMEOUT_REPORT_MS,
+      retries: GLM_MAX_RETRY,
+      onDelta,
+      signal,
+    });
+    const out = { ...parsed, source: 'glm' as const };
+    cacheSet(guideCache, `onecall:${cacheKey}`, out, 10 * 60 * 1000);
+    return out;
+  } catch {
+    return fallback;
+  }
+}
+
+const RecommendSchema = z.object({
+  origin: z.object({
+    lng: z.number().min(-180).max(180),
+    lat: z.number().min(-90).max(90),
+  }),
+  // 单程：最后去 end（如“17:30 下班，19:30 前到家”）；不传则回到 origin
+  end: z
+    .object({
+      lng: z.number().min(-180).max(180),
+      lat: z.number().min(-90).max(90),
+    })
+    .optional(),
+  mode: z.enum(['walk', 'bike', 'drive', 'transit']).default('walk'),
+  // 去/回可用不同交通方式（如骑共享单车去、打车回）；不传则都用 mode
+  goMode: z.enum(['walk', 'bike', 'drive', 'transit']).optional(),
+  backMode: z.enum(['walk', 'bike', 'drive', 'transit']).optional(),
+  // "HH:mm"（今天，结束早于开始算跨到次日）或 ISO 日期时间（"2026-10-19T17:30"，不带偏移按 timezone 理解）
+  startTime: z.string().min(4),
+  endTime: z.string().min(4),
+  timezone: z.string().optional(),
+  mood: z.string().optional().default(''),
+  categories: z.array(z.string()).optional(),
+  city: z.string().optional().default('宜昌'),
+  minStayMin: z.coerce.number().int().min(0).max(24 * 60).optional(),
+  allowRelax: z.coerce.boolean().optional().default(true),
+  // single: 单点往返（默认）；itinerary: 串联 2-3 个地点再回起点
+  plan: z.enum(['single', 'itinerary']).optional().default('single'),
+  // 随机种子：同样的输入 + seed 必定得到同样的结果（便于复现问题/演示）；不传则随机生成并回传
+  seed: z.coerce.number().int().min(0).max(0xffffffff).optional(),
+  // “别再给我看这个”：已展示过的 POI id 或 "lng,lat"，排名前先剔除
+  exclude: z.array(z.string()).max(200).optional().default([]),
+  // 商家数据过滤（高德 biz_ext）：没有评分/人均的地点（公园等）不受影响
+  minRating: z.coerce.number().min(0).max(5).optional(),
+  maxCostPerPerson: z.coerce.number().min(0).optional(),
+  // 体力/无障碍：normal | easy（少走路）| accessible（轮椅/婴儿车）；不传则从 mood 推断
+  effort: z.enum(['normal', 'easy', 'accessible']).optional(),
+  // 多人碰头：每人自己的起点/交通方式/空档（空档不传则用上面的 startTime/endTime）；传了就忽略 origin/end/plan
+  group: z
+    .array(
+      z.object({
+        name: z.string().max(20).optional(),
+        origin: z.object({
+          lng: z.number().min(-180).max(180),
+          lat: z.number().min(-90).max(90),
+        }),
+        mode: z.enum(['walk', 'bike', 'drive', 'transit']).default('walk'),
+        backMode: z.enum(['walk', 'bike', 'drive', 'transit']).optional(),
+        startTime: z.string().min(4).optional(),
+        endTime: z.string().min(4).optional(),
+      })
+    )
+    .min(2)
+    .max(6)
+    .optional(),
+  // minmax：让路上最久的那个人尽量少走（默认）；total：大家路上时间总和最少
+  fairness: z.enum(['minmax', 'total']).optional().default('minmax'),
+  // 夜间安全级别：strict 剔除（默认，可用 NIGHT_SAFETY 改）、soft 只降权、off 关闭
+  nightSafety: z.enum(['off', 'soft', 'strict']).optional(),
+  // 排序策略；不传用 RANKING_STRATEGY（默认 balanced）
+  strategy: z.enum(['balanced', 'nearby-first', 'explore-far', 'intent-strict']).optional(),
+  // 返回打分明细和每个落选地点没过的筛选（“为什么是它”面板用）
+  debug: z.coerce.boolean().optional().default(false),
+});
+
+type RecommendInput = z.infer<typeof RecommendSchema>;
+
+function clamp(n: number, min: number, max: number) {
+  return Math.max(min, Math.min(max, n));
+}
+
+function modeLabel(mode: Mode) {
+  if (mode === 'walk') return '步行';
+  if (mode === 'bike') return '骑行';
+  if (mode === 'transit') return '公交';
+  return '驾车';
+}
+
+const IntentProfileSchema = z.object({
+  keywords: z.array(z.string()).optional().default([]),
+  primaryIntent: z.enum(INTENT_IDS).optional().default('other'),
+  confidence: z.coerce.number().min(0).max(1).optional().default(0.5),
+  explain: z.string().optional().default(''),
+});
+
+function heuristicKeywords(mood: string): string[] {
+  const m = mood.trim();
+  if (!m) return [];
+  // 搜索词来自意图目录（core/intents.ts）
+  const out = topicKeywords(m);
+  // fallback: use user text as keyword if short enough（“不想太累”这类体力描述不是搜索词）
+  if (out.length === 0 && m.length <= 8 && !inferEffortProfile(m)) out.push(m);
+  return Array.from(new Set(out)).slice(0, 6);
+}
+
+function normalizeText(s: string) {
+  return (s || '').toLowerCase().replace(/\s+/g, '');
+}
+
+function intentMatchScore(params: { keywords: string[]; name: string; address: string; category: string }) {
+  const kws = params.keywords.map((k) => k.trim()).filter(Boolean);
+  if (kws.length === 0) return { hits: 0, score: 0 };
+  const text = normalizeText([params.name, params.address, params.category].join(' '));
+  let hits = 0;
+  for (const kw of kws) {
+    if (!kw) continue;
+    if (text.includes(normalizeText(kw))) hits += 1;
+  }
+  // soft-score: more hits => higher
+  return { hits, score: hits / kws.length };
+}
+
+function poiTopType(typeStr: string) {
+  return String(typeStr || '').split(';')[0] || '';
+}
+
+// 室内/户外程度 [-1, 1]：1=室内（下雨、高温时加分），-1=露天（减分），餐饮多数是室内但不算“去处”，给一半
+function poiIndoorness(poi: { name: string; category: string }) {
+  const full = `${poi.name} ${poi.category}`;
+  if (/商场|购物中心|百货|博物馆|展馆|美术馆|科技馆|图书馆|书店|电影院|影城|温泉|汤泉|汗蒸|室内/.test(full)) return 1;
+  if (/公园|广场|江边|滨江|绿地|湿地|绿道|步行街|风景名胜|旅游景点|山|码头/.test(full)) return -1;
+  if (poiTopType(poi.category) === '餐饮服务') return 0.5;
+  return 0;
+}
+
+// intentKeywords 只传用户手选的类目或大模型给的词；从 mood 抽出来的搜索词不要再传（“室内”会带出影院、商场，被当成强意图）
+function inferIntentPrimary(mood: string, intentKeywords: string[]) {
+  return inferIntent(`${mood || ''} ${(intentKeywords || []).join(' ')}`);
+}
+
+// 最短停留按命中的意图话题取默认值，留 10 分钟余量
+function inferMinStayMin(params: { mood: string; intentKeywords: string[]; availableMin: number }) {
+  const minStay = defaultMinStayMin(`${params.mood || ''} ${params.intentKeywords.join(' ')}`);
+  return clamp(minStay, 0, Math.max(0, params.availableMin - 10));
+}
+
+// NOTE: Previously we used two GLM calls (rerank+report, lightGuide).
+// For stability, we now generate report+guide in ONE GLM call (see glmReportAndGuide).
+
+function ruleIntentProfile(mood: string) {
+  const keywords = heuristicKeywords(mood);
+  const inferred = inferIntentPrimary(mood, []);
+  return {
+    keywords,
+    primaryIntent: inferred.primary,
+    confidence: inferred.strong ? 0.75 : 0.55,
+    explain: '',
+    source: 'rule' as 'manual' | 'rule' | 'glm',
+  };
+}
+
+type IntentProfile = ReturnType<typeof ruleIntentProfile>;
+
+// 大模型（默认 GLM，见 core/llm.ts）解析一句话偏好（“想找个能发呆的地方”这类规则抽不出搜索词的）。
+// 超过 GLM_TIMEOUT_INTENT_MS 就先用规则结果；还在路上的调用跑完照样进缓存，下次同一句话直接命中。
+async function glmIntentProfile(mood: string): Promise<IntentProfile> {
+  const llm = createLlmClient();
+  const rule = ruleIntentProfile(mood);
+  const cacheKey = mood.trim();
+  if (!llm || !cacheKey || GLM_TIMEOUT_INTENT_MS <= 0) return rule;
+  const cached = cacheGet(intentCache, cacheKey);
+  if (cached) return cached;
+  if (llm.coolingDown()) return rule;
+
+  const prompt =
+    `你是一个地图检索“意图解析器”。把用户一句话偏好解析成“主意图分类 + 可用于地图搜索的关键词”。\n` +
+    `要求：输出严格 JSON，不要 Markdown，不要多余文本。\n` +
+    `JSON格式：{"primaryIntent":"${INTENT_IDS.join('|')}","confidence":0.0,"keywords":["..."],"explain":"一句话解释"}\n` +
+    `规则：\n` +
+    `- primaryIntent 必须是枚举之一\n` +
+    `- confidence 0~1，越确定越高\n` +
+    `- keywords 1-5个，每个<=6个字，尽量用实体类关键词（如 温泉/汤泉/咖啡馆/夜市/博物馆/公园/商场）\n` +
+    `用户偏好：${mood}`;
+
+  const run = async (): Promise<IntentProfile> => {
+    try {
+      const parsed = await llm.json({
+        task: 'intent',
+        prompt,
+        schema: IntentProfileSchema,
+        temperature: 0.2,
+        // 排队等锁不算在请求超时里，真正的预算由下面的 race 控制；这里只防止调用无限挂着
+        timeoutMs: Math.max(GLM_TIMEOUT_INTENT_MS * 4, 8000),
+      });
+
+      // 合并：AI 关键词在前，规则从意图目录里抽到的补在后面
+      const kws = parsed.keywords.map((x) => x.trim()).filter(Boolean);
+      const mergedKeywords = Array.from(new Set([...kws, ...topicKeywords(mood)])).slice(0, 6);
+      if (mergedKeywords.length === 0) return rule;
+      const inferred = inferIntentPrimary(mood, kws);
+      const aiPrimary = parsed.primaryIntent;
+      const aiConf = clamp(parsed.confidence, 0, 1);
+      // 规则有强意图时以规则为准，除非 AI 非常确定（≥0.85）
+      const trustAi = aiConf >= 0.7;
+      const conflictWithStrongRule = inferred.strong && aiPrimary !== inferred.primary && aiConf < 0.85;
+      const out: IntentProfile = {
+        keywords: mergedKeywords,
+        primaryIntent: trustAi && !conflictWithStrongRule ? aiPrimary : inferred.primary,
+        confidence: aiConf,
+        explain: parsed.explain,
+        source: 'glm',
+      };
+      cacheSet(intentCache, cacheKey, out, 30 * 60 * 1000);
+      return out;
+    } catch (e) {
+      const status = axios.isAxiosError(e) ? e.response?.status || e.code : undefined;
+      console.warn('llm intent failed, use rules:', status || (e instanceof Error ? e.message : e));
+      return rule;
+    }
+  };
+
+  let timer: ReturnType<typeof setTimeout> | undefined;
+  const budget = new Promise<IntentProfile>((resolve) => {
+    timer = setTimeout(() => resolve(rule), GLM_TIMEOUT_INTENT_MS);
+  });
+  try {
+    return await Promise.race([run(), budget]);
+  } finally {
+    clearTimeout(timer);
+  }
+}
+
+function suggestedRadiusMeters(goMode: Mode, backMode: Mode, availableMinutes: number, effort: EffortProfile): number {
+  // 往返路上约占一半时间（同一交通方式时即单程 ~25%）；去/回方式不同则按两段速度共同折算
+  const roundTripMin = clamp(Math.floor(availableMinutes * 0.25), 8, 60) * 2;
+  const overheadMin = [goMode, backMode].filter((m) => m === 'transit').length * TRANSIT_OVERHEAD_MIN;
+  const movingMin = Math.max(10, roundTripMin - overheadMin);
+  return clamp(movingMin / (1 / metersPerMin(goMode, effort) + 1 / metersPerMin(backMode, effort)), 800, 12000);
+}
+
+function haversineMeters(a: { lng: number; lat: number }, b: { lng: number; lat: number }) {
+  const toRad = (d: number) => (d * Math.PI) / 180;
+  const R = 6371000;
+  const dLat = toRad(b.lat - a.lat);
+  const dLng = toRad(b.lng - a.lng);
+  const lat1 = toRad(a.lat);
+  const lat2 = toRad(b.lat);
+  const x =
+    Math.sin(dLat / 2) ** 2 +
+    Math.cos(lat1) * Math.cos(lat2) * Math.sin(dLng / 2) ** 2;
+  return 2 * R * Math.asin(Math.min(1, Math.sqrt(x)));
+}
+
+// 高德的步行用时按常人步速算；少走路/推车时把其中步行的部分按档位放慢
+function legMinutes(leg: { durationSec: number; walkSec: number }, effort: EffortProfile) {
+  const pace = effortSettings(effort).walkPace;
+  return Math.max(1, Math.round((leg.durationSec - leg.walkSec + leg.walkSec / pace) / 60));
+}
+
+async function resolveTransitCity(params: { maps: MapProvider; location: string; scopedCity?: string }) {
+  if (params.scopedCity) return params.scopedCity;
+  try {
+    const place = await params.maps.reverseGeocode(params.location);
+    return place?.citycode || place?.city || '宜昌';
+  } catch {
+    return '宜昌';
+  }
+}
+
+async function routeRoundTrip(params: {
+  maps: MapProvider;
+  goMode: Mode;
+  backMode: Mode;
+  origin: string;
+  destination: string;
+  returnTo?: string; // 单程终点；不传则回 origin
+  city?: string;
+  departAt?: LocalParts;
+  returnAt?: LocalParts;
+  effort: EffortProfile;
+}) {
+  const [go, back] = await Promise.all([
+    params.maps.route({
+      mode: params.goMode,
+      origin: params.origin,
+      destination: params.destination,
+      city: params.city,
+      departAt: params.departAt,
+      effort: params.effort,
+    }),
+    params.maps.route({
+      mode: params.backMode,
+      origin: params.destination,
+      destination: params.returnTo || params.origin,
+      city: params.city,
+      departAt: params.returnAt,
+      effort: params.effort,
+    }),
+  ]);
+  const pace = effortSettings(params.effort).walkPace;
+  return {
+    goMin: legMinutes(go, params.effort),
+    backMin: legMinutes(back, params.effort),
+    // 最长一段连续步行（已按体力档位放慢），用来卡“单段步行上限”
+    walkMaxMin: Math.round(Math.max(go.walkMaxSec, back.walkMaxSec) / 60 / pace),
+    routed: go.durationSec > 0 && back.durationSec > 0,
+    polyline: go.polyline,
+    backPolyline: back.polyline,
+    goSummary: go.summary,
+    backSummary: back.summary,
+  };
+}
+
+// mulberry32: tiny seeded PRNG, good enough for picking among a handful of POIs.
+function createRng(seed: number): () => number {
+  let a = seed >>> 0;
+  return () => {
+    a = (a + 0x6d2b79f5) >>> 0;
+    let t = a;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+function weightedRandom<T extends { weight: number }>(items: T[], rng: () => number): T | null {
+  const sum = items.reduce((a, b) => a + Math.max(0, b.weight), 0);
+  if (sum <= 0) return null;
+  let r = rng() * sum;
+  for (const it of items) {
+    r -= Math.max(0, it.weight);
+    if (r <= 0) return it;
+  }
+  return items[items.length - 1] ?? null;
+}
+
+// ---------- Itinerary (multi-stop) ----------
+type LngLat = { lng: number; lat: number };
+type ItineraryCandidate = {
+  poi: { id: string; name: string; category: string; address: string; location: string; openTime?: string };
+  weight: number;
+  hours: OpeningHours | null;
+};
+// 离出发多少分钟 → 当地时刻；串联的每一站按各自的到达时刻核营业时间和夜间安全，每段路按各自的出发时刻查公交
+type ArrivalAt = (offsetMin: number) => LocalParts;
+
+function parseLngLat(s: string): LngLat {
+  const [lng, lat] = String(s || '').split(',').map(Number);
+  return { lng, lat };
+}
+
+function estLegMin(a: LngLat, b: LngLat, mode: Mode, effort: EffortProfile) {
+  return estTravelMin(mode, haversineMeters(a, b), effort);
+}
+
+// 每站停留：沿用 inferMinStayMin 的类目默认值，但单站不超过 90 分钟，保证能串起 2-3 站
+function stopStayMin(poi: { name: string; category: string }, availableMin: number) {
+  return clamp(inferMinStayMin({ mood: `${poi.name} ${poi.category}`, intentKeywords: [], availableMin }), 20, 90);
+}
+
+// 用前两级类目区分“同一类地点”，例如 餐饮服务;咖啡厅 与 风景名胜;公园广场
+function stopKind(category: string) {
+  return String(category || '').split(';').slice(0, 2).join(';');
+}
+
+// 候选池是按“单点往返”的到达时刻筛过的，第 2、3 站到得更晚：停留期间得开着门，天黑后要剔除的地点不去（软模式只降权）
+function checkStopVisit(
+  c: ItineraryCandidate,
+  arrival: LocalParts,
+  stayMin: number,
+  nightCfg: NightSafetyConfig
+): { ok: true; nightFactor: number } | { ok: false; reason: string } {
+  if (c.hours) {
+    const open = checkOpenDuring(c.hours, arrival, stayMin);
+    if (open.status === 'closed' || open.status === 'partial') return { ok: false, reason: `营业时间 ${c.poi.openTime}：${open.reason}` };
+  }
+  const phase = nightPhaseDuring(arrival, stayMin, nightCfg);
+  const night = judgeNightSafety(c.poi, phase, nightCfg);
+  if (night.excluded) return { ok: false, reason: `${phaseLabel(phase)}不建议去：${night.fired.map((f) => f.label).join('；')}` };
+  return { ok: true, nightFactor: night.factor };
+}
+
+function pickItineraryStops(params: {
+  origin: LngLat;
+  end: LngLat;
+  pool: ItineraryCandidate[];
+  availableMin: number;
+  goMode: Mode; // 起点出发及站与站之间
+  backMode: Mode; // 最后一站到终点（默认即起点）
+  maxStops: number;
+  effort: EffortProfile;
+  arrivalAt: ArrivalAt;
+  nightCfg: NightSafetyConfig;
+}) {
+  const maxWalkLegMin = effortSettings(params.effort).maxWalkLegMin;
+  const walkTooFar = (mode: Mode, min: number) => mode === 'walk' && maxWalkLegMin !== null && min > maxWalkLegMin;
+  const stops: Array<{ c: ItineraryCandidate; stayMin: number }> = [];
+  const kinds = new Set<string>();
+  let cur = params.origin;
+  let usedMin = 0;
+
+  while (stops.length < params.maxStops) {
+    let best: { c: ItineraryCandidate; stayMin: number; legMin: number; score: number } | null = null;
+    for (const c of params.pool) {
+      if (stops.some((s) => s.c.poi.id === c.poi.id)) continue;
+      const pt = parseLngLat(c.poi.location);
+      const legMin = estLegMin(cur, pt, params.goMode, params.effort);
+      const stayMin = stopStayMin(c.poi, params.availableMin);
+      const homeMin = estLegMin(pt, params.end, params.backMode, params.effort);
+      if (usedMin + legMin + stayMin + homeMin > params.availableMin) continue;
+      if (walkTooFar(params.goMode, legMin) || walkTooFar(params.backMode, homeMin)) continue;
+      const visit = checkStopVisit(c, params.arrivalAt(usedMin + legMin), stayMin, params.nightCfg);
+      if (!visit.ok) continue;
+      // 偏好“顺路的短转场”+“换一种玩法”（咖啡 → 江边 → 回家）
+      const variety = kinds.has(stopKind(c.poi.category)) ? 0.35 : 1;
+      const score = (c.weight * variety * visit.nightFactor) / (1 + legMin / 15);
+      if (!best || score > best.score) best = { c, stayMin, legMin, score };
+    }
+    if (!best) break;
+    stops.push({ c: best.c, stayMin: best.stayMin });
+    kinds.add(stopKind(best.c.poi.category));
+    usedMin += best.legMin + best.stayMin;
+    cur = parseLngLat(best.c.poi.location);
+  }
+  return stops;
+}
+
+async function planItinerary(params: {
+  maps: MapProvider;
+  goMode: Mode;
+  backMode: Mode;
+  origin: string; // "lng,lat"
+  end: string; // "lng,lat"，往返时与 origin 相同
+  pool: ItineraryCandidate[];
+  availableMin: number;
+  city?: string;
+  effort: EffortProfile;
+  arrivalAt: ArrivalAt;
+  nightCfg: NightSafetyConfig;
+  signal?: AbortSignal;
+}) {
+  const { walkPace, maxWalkLegMin } = effortSettings(params.effort);
+
+  // 同一段路只精算一次（去掉末站重算、换站重选时可复用前面的腿）；公交的班次跟出发时刻走，时刻也算进 key
+  const legCache = new Map<string, Promise<MapRoute>>();
+  const routeLeg = (from: string, to: string, mode: Mode, departMin: number) => {
+    const departAt = params.arrivalAt(departMin);
+    const k = `${mode}:${from}->${to}${mode === 'transit' ? `@${departAt.date} ${departAt.hhmm}` : ''}`;
+    if (!legCache.has(k)) {
+      legCache.set(
+        k,
+        params.maps.route({
+          mode,
+          origin: from,
+          destination: to,
+          city: params.city,
+          departAt,
+          effort: params.effort,
+        })
+      );
+    }
+    return legCache.get(k)!;
+  };
+
+  // 精算后某站到得太晚（关门 / 天黑后要剔除）：把它拿出候选池重新挑，最多换 3 次
+  const unfit = new Set<string>();
+  for (let attempt = 0; attempt <= 3; attempt += 1) {
+    params.signal?.throwIfAborted();
+    const stops = pickItineraryStops({
+      origin: parseLngLat(params.origin),
+      end: parseLngLat(params.end),
+      pool: params.pool.filter((c) => !unfit.has(c.poi.id)),
+      availableMin: params.availableMin,
+      goMode: params.goMode,
+      backMode: params.backMode,
+      maxStops: 3,
+      effort: params.effort,
+      arrivalAt: params.arrivalAt,
+      nightCfg: params.nightCfg,
+    });
+    let repick = false;
+    while (stops.length >= 2) {
+      const points = [params.origin, ...stops.map((s) => s.c.poi.location), params.end];
+      const legModes = points.slice(1).map((_to, i) => (i === stops.length ? params.backMode : params.goMode));
+      // 每段路的出发时刻 = 前面所有路程 + 前面各站停留。停留要等精算完分了余量才定，所以先按估算路程和最短停留推一遍，
+      // 再按精算路程和分好的停留重推一遍（不是公交的腿命中缓存，不会重复请求）
+      let legMins = points.slice(1).map((to, i) => estLegMin(parseLngLat(points[i]), parseLngLat(to), legModes[i], params.effort));
+      let stayMins = stops.map((s) => s.stayMin);
+      let routed: MapRoute[] = [];
+      let slack = 0;
+      for (let pass = 0; pass < 2; pass += 1) {
+        let departMin = 0;
+        const departs = legMins.map((min, i) => {
+          const at = departMin;
+          departMin += min + (stayMins[i] ?? 0);
+          return at;
+        });
+        routed = await Promise.all(points.slice(1).map((to, i) => routeLeg(points[i], to, legModes[i], departs[i])));
+        legMins = routed.map((r) => legMinutes(r, params.effort));
+        slack = params.availableMin - legMins.reduce((a, b) => a + b, 0) - stops.reduce((a, s) => a + s.stayMin, 0);
+        if (slack < 0) break;
+        // 剩余时间平均分给每一站，整体仍是“去 + 玩 + 回 = 可用时长”
+        const extra = Math.floor(slack / stops.length);
+        stayMins = stops.map((s, i) => s.stayMin + extra + (i === 0 ? slack - extra * stops.length : 0));
+      }
+      const travelMin = legMins.reduce((a, b) => a + b, 0);
+      const walkTooLong = maxWalkLegMin !== null && routed.some((r) => r.walkMaxSec / 60 / walkPace > maxWalkLegMin);
+      if (slack < 0 || walkTooLong) {
+        // 精算后超时（或有一段步行超出体力上限）：去掉最后一站再试
+        stops.pop();
+        continue;
+      }
+      // 每站的到达时刻 = 前面所有路程 + 前面各站停留
+      let elapsed = 0;
+      const bad = stops.find((s, i) => {
+        elapsed += legMins[i];
+        const visit = checkStopVisit(s.c, params.arrivalAt(elapsed), stayMins[i], params.nightCfg);
+        elapsed += stayMins[i];
+        return !visit.ok;
+      });
+      if (bad) {
+        unfit.add(bad.c.poi.id);
+        repick = true;
+        break;
+      }
+
+      const names = ['起点', ...stops.map((s) => s.c.poi.name), params.end === params.origin ? '起点' : '终点'];
+      return {
+        stops: stops.map((s, i) => ({
+          name: s.c.poi.name,
+          category: s.c.poi.category,
+          address: s.c.poi.address,
+          location: s.c.poi.location,
+          stayMin: stayMins[i],
+        })),
+        legs: routed.map((r, i) => ({
+          fromName: names[i],
+          toName: names[i + 1],
+          from: points[i],
+          to: points[i + 1],
+          mode: legModes[i],
+          min: legMins[i],
+          polyline: r.polyline,
+        })),
+        travelMin,
+        stayMin: params.availableMin - travelMin,
+      };
+    }
+    if (!repick) return null;
+  }
+  return null;
+}
+
+// 手动选了类目就按类目，否则解析一句话偏好（大模型优先，超时/失败用规则）
+async function buildIntentProfile(mood: string, categories?: string[]): Promise<IntentProfile> {
+  if (categories?.length) {
+    const inferred = inferIntentPrimary(mood, categories);
+    return {
+      keywords: categories,
+      primaryIntent: inferred.primary,
+      confidence: inferred.strong ? 0.9 : 0.7,
+      explain: '',
+      source: 'manual',
+    };
+  }
+  return glmIntentProfile(mood);
+}
+
+function intentSourceLabel(source: IntentProfile['source']) {
+  return source === 'manual' ? '（手动）' : source === 'glm' ? '（AI 解析）' : '（规则兜底）';
+}
+
+type PoiCandidate = MapPoi & { weightBase: number };
+
+async function searchPois(params: { maps: MapProvider; location: string; radius: number; city?: string; keywords: string[] }) {
+  const out: PoiCandidate[] = [];
+  for (const kw of params.keywords) {
+    // 拉两页，避免“只取最近8个全被过滤/全不相关”
+    for (const page of [1, 2]) {
+      const pois = await params.maps.searchAround({
+        location: params.location,
+        keywords: kw,
+        radius: params.radius,
+        pageSize: 15,
+        page,
+        city: params.city,
+      });
+      out.push(...pois.map((p) => ({ ...p, weightBase: 1 })));
+      if (out.length >= 45) return out;
+    }
+  }
+  return out;
+}
+
+function dedupePois(pois: PoiCandidate[]) {
+  const seen = new Set<string>();
+  return pois.filter((p) => {
+    const k = `${p.location}::${p.name}`;
+    if (seen.has(k)) return false;
+    seen.add(k);
+    return true;
+  });
+}
+
+// 打分明细（debug）：weight = base × 各项系数，base = (权重·closeness + 权重·novelty + 权重·match) × 100
+type ScoreBreakdown = {
+  closeness: number; // 1=单程正好是理想用时
+  novelty: number; // 随机扰动
+  match: number; // 关键词命中比例
+  weights: { closeness: number; novelty: number; match: number };
+  base: number;
+  affinity: number; // 类别亲和度 [-1, 1]
+  factors: { affinity: number; hours: number; weather: number; rating: number; comfort: number; night: number };
+  weight: number;
+};
+
+// 落选原因：每个地点可能没过好几道筛选（放宽后又回到榜单的不算落选）
+type DropFilter = 'intent_miss' | 'hours' | 'too_far' | 'isochrone' | 'effort' | 'night' | 'affinity' | 'min_stay' | 'too_close' | 'rank';
+
+function round3(n: number) {
+  return Math.round(n * 1000) / 1000;
+}
+
+function roundBreakdown(b: ScoreBreakdown): ScoreBreakdown {
+  const factors = Object.fromEntries(Object.entries(b.factors).map(([k, v]) => [k, round3(v)])) as ScoreBreakdown['factors'];
+  return {
+    ...b,
+    closeness: round3(b.closeness),
+    novelty: round3(b.novelty),
+    match: round3(b.match),
+    base: round3(b.base),
+    affinity: round3(b.affinity),
+    weight: round3(b.weight),
+    factors,
+  };
+}
+
+// 夜间规则统计：每条规则在多少个候选上生效，用于 reasons 和响应
+function summarizeNightRules(verdicts: NightVerdict[]) {
+  const byRule = new Map<string, { id: string; label: string; effect: 'exclude' | 'penalize' | 'boost'; count: number }>();
+  for (const v of verdicts) {
+    for (const f of v.fired) {
+      const hit = byRule.get(f.id);
+      if (hit) hit.count += 1;
+      else byRule.set(f.id, { ...f, count: 1 });
+    }
+  }
+  return [...byRule.values()];
+}
+
+function describeNightRules(phase: NightPhase, rules: ReturnType<typeof summarizeNightRules>) {
+  const verb = { exclude: '剔除', penalize: '降权', boost: '加分' } as const;
+  return `${phaseLabel(phase)}出行，${rules.map((r) => `${verb[r.effect]}「${r.label}」${r.count} 个`).join('；')}`;
+}
+
+// 多人碰头：每人一个起点 + 自己的交通方式和空档，在大家中间找一个地点。
+// 默认让路上最久的那个人尽量少走（fairness=total 时让总路程最少），且每个人都要能按自己的空档往返。
+async function recommendGroup(input: RecommendInput, maps: MapProvider): Promise<CoreResponse> {
+  const members = input.group!;
+  const names = members.map((m, i) => m.name?.trim() || `第${i + 1}人`);
+  const windows: TimeWindow[] = [];
+  for (let i = 0; i < members.length; i++) {
+    const tw = resolveTimeWindow({
+      startTime: members[i].startTime ?? input.startTime,
+      endTime: members[i].endTime ?? input.endTime,
+      timezone: input.timezone,
+      now: upstreamNow(),
+    });
+    if (!tw.ok) {
+      return reply(400, { error: 'bad_time_window', message: `${names[i]}：${tw.message}` });
+    }
+    windows.push(tw.window);
+  }
+
+  try {
+    const { mood, city, fairness } = input;
+    const timezone = windows[0].timezone;
+    const relaxNotes: string[] = [];
+    const seed = input.seed ?? Math.floor(Math.random() * 0x100000000);
+    const effort: EffortProfile = input.effort ?? inferEffortProfile(mood) ?? 'normal';
+    const nightCfg = nightSafetyConfig(input.nightSafety);
+    const scopedCity = city?.trim() ? city.trim() : undefined;
+    const modes = members.map((m) => ({ go: m.mode as Mode, back: (m.backMode ?? m.mode) as Mode }));
+    const origins = members.map((m) => `${m.origin.lng},${m.origin.lat}`);
+    const hhmm = (ms: number) => localParts(new Date(ms), timezone).hhmm;
+
+    // 以大家起点的中心为圆心搜：半径盖住“离中心最远那个人”的一半路程，再留点余量
+    const center = centroid(members.map((m) => m.origin));
+    const centerLocation = `${center.lng},${center.lat}`;
+    const spread = Math.max(...members.map((m) => haversineMeters(center, m.origin)));
+    const radius = clamp(spread / 2 + 1500, 1500, 15000);
+
+    const intentProfile = await buildIntentProfile(mood, input.categories);
+    const intentKeywords = intentProfile.keywords;
+    const intent = { primary: intentProfile.primaryIntent as IntentPrimary, strong: intentProfile.confidence >= 0.55 };
+    const { strategy } = resolveRankingStrategy(input.strategy);
+    const searchKeywords = (intentKeywords.length ? intentKeywords : defaultBrowseKeywords()).slice(0, 8);
+    let pois = dedupePois(await searchPois({ maps, location: centerLocation, radius, city: scopedCity, keywords: searchKeywords }));
+    if (pois.length === 0 && intentKeywords.length > 0) {
+      pois = dedupePois(
+        await searchPois({ maps, location: centerLocation, radius, city: scopedCity, keywords: defaultBrowseKeywords() })
+      );
+    }
+    const excluded = new Set(input.exclude.map((x) => x.trim()).filter(Boolean));
+    const fresh = pois.filter((p) => !excluded.has(p.id) && !excluded.has(p.location));
+    if (fresh.length === 0 && pois.length > 0) {
+      relaxNotes.push(`附近符合条件的 ${pois.length} 个地点你们都已经看过了，本次允许重复推荐。`);
+    } else {
+      pois = fresh;
+    }
+
+    // 每个候选先按直线估算每个人的去/回用时
+    const scored = pois
+      .slice(0, 30)
+      .filter((poi) => {
+        if (intentKeywords.length === 0) return true;
+        return intentMatchScore({ keywords: intentKeywords, name: poi.name, address: poi.address, category: poi.category }).hits > 0;
+      })
+      .filter((poi) => !(effortSettings(effort).excludeStairs && isStairHeavy(poi)))
+      .map((poi) => {
+        const pt = parseLngLat(poi.location);
+        const legs = members.map((m, i) => ({
+          goMin: estTravelMin(modes[i].go, haversineMeters(m.origin, pt), effort),
+          backMin: estTravelMin(modes[i].back, haversineMeters(pt, m.origin), effort),
+        }));
+        return { poi, legs, affinity: poiAffinity(intent.primary, poi), travelSource: 'estimate' as 'estimate' | 'matrix' };
+      });
+
+    // 估算最公平的前 N 个：每个人各查一次距离矩阵（候选 → 自己的起点），换成路网用时
+    const matrixPool = [...scored]
+      .sort((a, b) => fairnessCost(a.legs, fairness) - fairnessCost(b.legs, fairness))
+      .slice(0, Math.max(0, MATRIX_TOP_N));
+    let matrixMeasured = 0;
+    if (matrixPool.length) {
+      try {
+        const travelMatrix = createTravelMatrix(maps);
+        const poiLocations = matrixPool.map((c) => c.poi.location);
+        const lookups = new Map<string, Promise<MatrixCell[]>>();
+        const lookup = (m: Mode, destination: string) => {
+          const k = `${matrixBasis(m)}:${destination}`;
+          if (!lookups.has(k)) lookups.set(k, travelMatrix({ basis: matrixBasis(m), origins: poiLocations, destination }));
+          return lookups.get(k)!;
+        };
+        const cells = await Promise.all(origins.map((o, i) => Promise.all([lookup(modes[i].go, o), lookup(modes[i].back, o)])));
+        matrixPool.forEach((c, j) => {
+          const legs = cells.map(([goCells, backCells], i) => ({
+            goMin: matrixMin(modes[i].go, goCells[j], effort),
+            backMin: matrixMin(modes[i].back, backCells[j], effort),
+          }));
+          if (legs.some((l) => l.goMin === null || l.backMin === null)) return;
+          c.legs = legs as Array<{ goMin: number; backMin: number }>;
+          c.travelSource = 'matrix';
+          matrixMeasured += 1;
+        });
+      } catch (e) {
+        console.warn('travel matrix failed, keep estimates:', e instanceof Error ? e.message : e);
+      }
+    }
+
+    const tripsFor = (legs: Array<{ goMin: number; backMin: number }>): MemberTrip[] =>
+      legs.map((l, i) => ({ departAt: windows[i].departAt.getTime(), endAt: windows[i].end.getTime(), ...l }));
+    const shortestWindow = Math.min(...windows.map((w) => w.availableMin));
+    let minStayMin = input.minStayMin ?? inferMinStayMin({ mood, intentKeywords, availableMin: shortestWindow });
+    minStayMin = clamp(minStayMin, 0, Math.max(0, shortestWindow - 10));
+
+    // 能一起待多久 + 碰面期间是否营业；按“公平代价 / 意图亲和度”排序，越小越好
+    const hoursRejected: Array<{ name: string; openTime: string; reason: string }> = [];
+    const evaluated = scored.flatMap((c) => {
+      const slot = meetingSlot(tripsFor(c.legs));
+      let meetMin = slot.meetMin;
+      const hours = parseOpeningHours(c.poi.openTime);
+      if (hours && meetMin >= 0) {
+        const open = checkOpenDuring(hours, localParts(new Date(slot.startAt), timezone), meetMin);
+        if (open.status === 'closed' || (open.status === 'partial' && open.openMin < minStayMin)) {
+          hoursRejected.push({ name: c.poi.name, openTime: c.poi.openTime!, reason: open.reason });
+          return [];
+        }
+        if (open.status === 'partial') meetMin = open.openMin;
+      }
+      const affinityFactor = strategy.affinityFactor(c.affinity, intent.strong);
+      const night = judgeNightSafety(c.poi, nightPhaseDuring(localParts(new Date(slot.startAt), timezone), meetMin, nightCfg), nightCfg);
+      const cost = fairnessCost(c.legs, fairness) / (affinityFactor * effortFactor(effort, c.poi) * night.factor);
+      return [{ ...c, meetMin, hours, cost, night }];
+    });
+    // 人多也不往黑灯瞎火的地方约：命中夜间“剔除”规则的拿掉，全拿光才放宽
+    const nightRules = summarizeNightRules(evaluated.map((c) => c.night));
+    const nightSafe = evaluated.filter((c) => !c.night.excluded);
+    if (nightSafe.length === 0 && evaluated.length > 0 && nightRules.length) {
+      relaxNotes.push('天黑后附近只剩江边/公园/景区一类地点，已放宽夜间安全限制：请结伴、走亮处和大路。');
+    } else {
+      evaluated.splice(0, evaluated.length, ...nightSafe);
+    }
+    const groupPhase = nightPhaseDuring(windows[0].departLocal, shortestWindow, nightCfg);
+    const nightNote = nightRules.length ? describeNightRules(groupPhase, nightRules) : undefined;
+
+    let feasible = evaluated.filter((c) => c.meetMin >= minStayMin);
+    if (feasible.length === 0 && input.allowRelax) {
+      const relaxed = Math.min(minStayMin, 20);
+      if (relaxed < minStayMin) {
+        relaxNotes.push(`为确保给出方案，已将一起停留的时间从 ${minStayMin} 分钟放宽到 ${relaxed} 分钟。`);
+        minStayMin = relaxed;
+      }
+      feasible = evaluated.filter((c) => c.meetMin >= minStayMin);
+    }
+    feasible.sort((a, b) => a.cost - b.cost);
+    if (feasible.length === 0) {
+      return reply(200, {
+        ok: true,
+        empty: true,
+        seed,
+        message:
+          evaluated.length === 0 && hoursRejected.length
+            ? '你们碰面的时段附近地点大多不营业（可换个时间段再试）'
+            : '大家的空档凑不到一起：算上各自路上的时间，没有能一起待够的地点（可延长时间段或换交通方式）',
+        hoursRejected: hoursRejected.length ? hoursRejected : undefined,
+      });
+    }
+
+    // 精算：每个人去/回各规划一次；有人超时/步行超限就换下一个候选
+    const routeCity = modes.some((m) => m.go === 'transit' || m.back === 'transit')
+      ? await resolveTransitCity({ maps, location: origins[0], scopedCity })
+      : undefined;
+    const maxWalkLegMin = effortSettings(effort).maxWalkLegMin;
+    const routing: { tried: number; rejected: Array<{ name: string; reason: string }> } = { tried: 0, rejected: [] };
+    type GroupPick = {
+      c: (typeof feasible)[number];
+      trips: Array<Awaited<ReturnType<typeof routeRoundTrip>>>;
+      slot: ReturnType<typeof meetingSlot>;
+      meetMin: number;
+    };
+    let accepted: GroupPick | null = null;
+    let fallback: GroupPick | null = null;
+    for (const c of feasible.slice(0, Math.max(1, ROUTE_MAX_ATTEMPTS))) {
+      routing.tried += 1;
+      let trips: GroupPick['trips'];
+      try {
+        trips = await Promise.all(
+          members.map((_m, i) =>
+            routeRoundTrip({
+              maps,
+              goMode: modes[i].go,
+              backMode: modes[i].back,
+              origin: origins[i],
+              destination: c.poi.location,
+              city: routeCity,
+              departAt: windows[i].departLocal,
+              returnAt: localParts(new Date(windows[i].end.getTime() - c.legs[i].backMin * 60000), timezone),
+              effort,
+            })
+          )
+        );
+      } catch (e) {
+        routing.rejected.push({ name: c.poi.name, reason: `路线规划失败（${e instanceof Error ? e.message : 'unknown'}）` });
+        continue;
+      }
+      const unrouted = trips.findIndex((t) => !t.routed);
+      if (unrouted >= 0) {
+        routing.rejected.push({ name: c.poi.name, reason: `高德未返回${names[unrouted]}的可用路线` });
+        continue;
+      }
+      const tooFar = trips.findIndex((t) => maxWalkLegMin !== null && t.walkMaxMin > maxWalkLegMin);
+      if (tooFar >= 0) {
+        routing.rejected.push({ name: c.poi.name, reason: `${names[tooFar]}有一段步行约 ${trips[tooFar].walkMaxMin} 分，超过体力上限` });
+        continue;
+      }
+      const slot = meetingSlot(tripsFor(trips));
+      let meetMin = slot.meetMin;
+      if (meetMin < 0) {
+        routing.rejected.push({ name: c.poi.name, reason: '精算后大家的时间凑不到一起' });
+        continue;
+      }
+      if (c.hours) {
+        const open = checkOpenDuring(c.hours, localParts(new Date(slot.startAt), timezone), meetMin);
+        if (open.status === 'closed' || (open.status === 'partial' && open.openMin < minStayMin)) {
+          routing.rejected.push({ name: c.poi.name, reason: `营业时间 ${c.poi.openTime}：${open.reason}` });
+          continue;
+        }
+        if (open.status === 'partial') meetMin = open.openMin;
+      }
+      const pick = { c, trips, slot, meetMin };
+      if (meetMin >= minStayMin) {
+        accepted = pick;
+        break;
+      }
+      routing.rejected.push({ name: c.poi.name, reason: `精算后只能一起待 ${meetMin} 分，低于期望的 ${minStayMin} 分` });
+      if (!fallback || meetMin > fallback.meetMin) fallback = pick;
+    }
+    const best = accepted ?? fallback;
+    if (!best) {
+      return reply(200, {
+        ok: true,
+        empty: true,
+        seed,
+        message: `已尝试 ${routing.tried} 个候选，精算后都没法让每个人按时往返（建议延长时间段或换交通方式）。`,
+        routing,
+        hoursRejected: hoursRejected.length ? hoursRejected : undefined,
+      });
+    }
+    if (!accepted) {
+      routing.rejected = routing.rejected.filter((r) => r.name !== best.c.poi.name);
+      relaxNotes.push(`受时间/距离影响，大家实际能一起待约 ${best.meetMin} 分钟，低于期望的 ${minStayMin} 分钟。`);
+    }
+
+    const chosen = best.c.poi;
+    const meetEndAt = best.slot.startAt + best.meetMin * 60000;
+    // 每个人按“刚好到齐”倒推出发时间：早到的人不用干等
+    const groupMembers = members.map((m, i) => {
+      const t = best.trips[i];
+      return {
+        name: names[i],
+        origin: m.origin,
+        goMode: modes[i].go,
+        backMode: modes[i].back,
+        goMin: t.goMin,
+        backMin: t.backMin,
+        departAt: hhmm(best.slot.startAt - t.goMin * 60000),
+        homeAt: hhmm(meetEndAt + t.backMin * 60000),
+        polyline: t.polyline,
+        backPolyline: t.backPolyline,
+        goSummary: t.goSummary,
+      };
+    });
+    const travel = groupMembers.map((g) => g.goMin + g.backMin);
+    const maxTravelMin = Math.max(...travel);
+    const totalTravelMin = travel.reduce((a, b) => a + b, 0);
+    const goMin = Math.max(...groupMembers.map((g) => g.goMin));
+    const backMin = Math.max(...groupMembers.map((g) => g.backMin));
+    const meetAt = hhmm(best.slot.startAt);
+    const meetEnd = hhmm(meetEndAt);
+
+    const candidates = feasible.slice(0, 3).map((c) => ({
+      name: c.poi.name,
+      category: c.poi.category,
+      address: c.poi.address,
+      location: c.poi.location,
+      oneWayMinEst: Math.max(...c.legs.map((l) => l.goMin)),
+      playMinEst: c.meetMin,
+      travelSource: c.travelSource,
+      rating: c.poi.rating,
+      costPerPerson: c.poi.costPerPerson,
+    }));
+
+    const ai = await glmReportAndGuide({
+      mood,
+      goMode: modes[0].go,
+      backMode: modes[0].back,
+      date: localParts(new Date(best.slot.startAt), timezone).date,
+      startTime: meetAt,
+      endTime: meetEnd,
+      availableMin: shortestWindow,
+      minStayMin,
+      effort: effort === 'normal' ? undefined : effortSettings(effort).label,
+      night: nightNote,
+      intent: { primaryIntent: intentProfile.primaryIntent, keywords: intentProfile.keywords },
+      candidatesTop3: candidates.map((c) => ({
+        name: c.name,
+        category: c.category,
+        address: c.address,
+        oneWayMinEst: c.oneWayMinEst,
+        playMinEst: c.playMinEst,
+        rating: c.rating,
+        costPerPerson: c.costPerPerson,
+      })),
+      chosenTop1: {
+        name: chosen.name,
+        category: chosen.category,
+        address: chosen.address,
+        goMin,
+        backMin,
+        playMin: best.meetMin,
+        rating: chosen.rating,
+        costPerPerson: chosen.costPerPerson,
+      },
+      group: groupMembers.map((g) => ({ name: g.name, goMode: g.goMode, goMin: g.goMin, backMin: g.backMin })),
+    });
+
+    const reasons = [
+      `碰头：${meetAt} 人到齐，一起待 ${best.meetMin} 分（到 ${meetEnd}）`,
+      ...groupMembers.map(
+        (g) => `${g.name}：${g.departAt} 出发，${modeLabel(g.goMode)} ${g.goMin} 分到，回程${modeLabel(g.backMode)} ${g.backMin} 分（${g.homeAt} 到家）`
+      ),
+      fairness === 'total'
+        ? `公平：大家路上总共 ${totalTravelMin} 分，尽量少`
+        : `公平：路上最久的人往返 ${maxTravelMin} 分，尽量少（总共 ${totalTravelMin} 分）`,
+      ...(chosen.openTime ? [`营业时间：${chosen.openTime}`] : []),
+      ...(matrixMeasured ? [`路网用时：前 ${matrixMeasured} 个候选按真实路网估算（非直线距离）`] : []),
+      ...(hoursRejected.length ? [`营业时间过滤：${hoursRejected.length} 个地点在你们碰面时不营业，已跳过`] : []),
+      ...(effort !== 'normal' ? [`体力：${effortSettings(effort).label}`] : []),
+      ...(nightNote ? [`夜间安全：${nightNote}`] : []),
+      mood ? `偏好提示：${mood}` : '随机小确幸',
+      `意图识别：${intentProfile.primaryIntent}${intentSourceLabel(intentProfile.source)}`,
+      `AI文案：${ai.source === 'glm' ? '已生成' : '兜底文案'}`,
+      ...(routing.rejected.length ? [`精算换候选：共尝试 ${routing.tried} 个，前 ${routing.rejected.length} 个未能闭环`] : []),
+    ];
+
+    return reply(200, {
+      ok: true,
+      city: scopedCity || '不限城市',
+      seed,
+      input: {
+        origin: members[0].origin,
+        mode: modes[0].go,
+        goMode: modes[0].go,
+        backMode: modes[0].back,
+        startTime: meetAt,
+        endTime: meetEnd,
+        timezone,
+        availableMin: shortestWindow,
+        plan: 'single',
+        effort,
+        strategy: strategy.name,
+      },
+      intent: {
+        primaryIntent: intentProfile.primaryIntent,
+        confidence: intentProfile.confidence,
+        keywords: intentProfile.keywords,
+        explain: intentProfile.explain,
+        source: intentProfile.source,
+      },
+      relaxNotes: relaxNotes.length ? relaxNotes : undefined,
+      routing: routing.tried ? routing : undefined,
+      hoursRejected: hoursRejected.length ? hoursRejected : undefined,
+      candidates,
+      reportMarkdown: [
+        ai.reportMarkdown,
+        ``,
+        `---`,
+        `### 各自的时间安排（精算）`,
+        ...groupMembers.map(
+          (g) =>
+            `- ${g.name}：${g.departAt} 出发 → ${modeLabel(g.goMode)} ${g.goMin} 分 → 一起待 ${best.meetMin} 分 → ${modeLabel(g.backMode)} ${g.backMin} 分，${g.homeAt} 到家`
+        ),
+        ...(relaxNotes.length ? [``, `### 放宽说明`, ...relaxNotes.map((x) => `- ${x}`)] : []),
+      ].join('\n'),
+      result: {
+        id: chosen.id,
+        name: chosen.name,
+        category: chosen.category,
+        address: chosen.address,
+        location: chosen.location,
+        openTime: chosen.openTime,
+        rating: chosen.rating,
+        costPerPerson: chosen.costPerPerson,
+        tel: chosen.tel,
+        photoUrl: chosen.photoUrl,
+        // 多人时取路上最久的人；每个人的细节在 group.members
+        goMin,
+        backMin,
+        playMin: best.meetMin,
+        goMode: modes[0].go,
+        backMode: modes[0].back,
+        polyline: '',
+        reasons,
+        guide: ai.guide,
+      },
+      group: {
+        fairness,
+        meetAt,
+        meetEndAt: meetEnd,
+        meetMin: best.meetMin,
+        maxTravelMin,
+        totalTravelMin,
+        members: groupMembers,
+      },
+    });
+  } catch (err) {
+    console.error(upstreamErrorDetail(err));
+    return reply(500, { error: 'server_error', message: err instanceof Error ? err.message : 'unknown' });
+  }
+}
+
+// 单点/串联推荐的中间结果，按完成顺序回调（流式接口 core/recommendStream.ts 用）；最终响应不变
+export type RecommendStage =
+  | { stage: 'intent'; intent: { primaryIntent: string; confidence: number; keywords: string[]; source: IntentProfile['source'] } }
+  | { stage: 'candidates'; candidates: unknown[] }
+  | { stage: 'top1'; result: Record<string, unknown>; itinerary?: unknown; relaxNotes?: string[] }
+  | { stage: 'report'; delta: string };
+
+export async function handleRecommend(req: CoreRequest, onStage?: (s: RecommendStage) => void): Promise<CoreResponse> {
+  if (req.method !== 'POST') {
+    return reply(405, { error: 'method_not_allowed' });
+  }
+
+  const maps = createMapProvider(req.signal);
+  if (!maps) {
+    return reply(500, { error: 'missing_env', message: 'Missing AMAP_WEB_SERVICE_KEY' });
+  }
+
+  const parsed = RecommendSchema.safeParse(req.body);
+  if (!parsed.success) {
+    return reply(400, { error: 'bad_request', detail: parsed.error.flatten() });
+  }
+  if (parsed.data.group?.length) return recommendGroup(parsed.data, maps);
+
+  const tw = resolveTimeWindow({
+    startTime: parsed.data.startTime,
+    endTime: parsed.data.endTime,
+    timezone: parsed.data.timezone,
+    now: upstreamNow(),
+  });
+  if (!tw.ok) {
+    return reply(400, { error: 'bad_time_window', message: tw.message });
+  }
+  const timeWindow = tw.window;
+
+  try {
+    const { origin, mode, mood, city } = parsed.data;
+    const goMode: Mode = parsed.data.goMode ?? mode;
+    const backMode: Mode = parsed.data.backMode ?? mode;
+    // 展示/提示词用本地墙上时间；跨天时带上日期
+    const sameDay = timeWindow.departLocal.date === timeWindow.endLocal.date;
+    const startTime = timeWindow.departLocal.hhmm;
+    const endTime = sameDay ? timeWindow.endLocal.hhmm : `次日${timeWindow.endLocal.hhmm}`;
+    const safeAvailableMin = clamp(timeWindow.availableMin, 30, MAX_WINDOW_MIN);
+    const relaxNotes: string[] = [];
+    const seed = parsed.data.seed ?? Math.floor(Math.random() * 0x100000000);
+    const rng = createRng(seed);
+    // 体力档位：手动选的优先，其次从偏好里推断（“不想走路”“推婴儿车”）
+    const inferredEffort = inferEffortProfile(mood);
+    const effort: EffortProfile = parsed.data.effort ?? inferredEffort ?? 'normal';
+    const effortSource = parsed.data.effort ? 'manual' : inferredEffort ? 'mood' : 'default';
+    const effortCfg = effortSettings(effort);
+    const nightCfg = nightSafetyConfig(parsed.data.nightSafety);
+
+    const location = `${origin.lng},${origin.lat}`;
+    // If city is provided, scope search to that city (default: 宜昌).
+    // If you want to support "follow my city", you can pass city="" from frontend to disable citylimit.
+    const scopedCity = city?.trim() ? city.trim() : undefined;
+
+    // 单程（带 end）时在“起点-终点”走廊里找：以中点为圆心，半径覆盖两端 + 一半的绕路余量
+    const end = parsed.data.end;
+    const endLocation = end ? `${end.lng},${end.lat}` : location;
+    const oneWay = Boolean(end) && endLocation !== location;
+    const radius = oneWay
+      ? clamp(haversineMeters(origin, end!) / 2 + suggestedRadiusMeters(goMode, backMode, safeAvailableMin, effort) / 2, 800, 20000)
+      : suggestedRadiusMeters(goMode, backMode, safeAvailableMin, effort);
+    const searchLocation = oneWay ? `${(origin.lng + end!.lng) / 2},${(origin.lat + end!.lat) / 2}` : location;
+    // 天气和 POI 检索并行：起点逆地理拿 adcode，当天查实况、未来日期查预报
+    const weatherPromise = (async () => {
+      try {
+        const adcode = (await maps.reverseGeocode(location))?.adcode;
+        if (!adcode) return null;
+        const forecast = timeWindow.departLocal.date !== localParts(upstreamNow(), timeWindow.timezone).date;
+        return await fetchWeather({ maps, adcode, at: timeWindow.departLocal, forecast });
+      } catch {
+        return null;
+      }
+    })();
+    // 可达范围：去程方式的等时圈（往返预算按去/回速度分摊；单程路线只约束“起点能到”），同样和 POI 检索并行
+    const isoBudgetMin = oneWay
+      ? safeAvailableMin
+      : Math.round((safeAvailableMin * metersPerMin(backMode, effort)) / (metersPerMin(goMode, effort) + metersPerMin(backMode, effort)));
+    // 等时圈按常人步速算：步行慢的人同样的分钟数只相当于更短的“常人分钟”
+    const isoBudgetAtNormalPace = goMode === 'walk' ? Math.round(isoBudgetMin * effortCfg.walkPace) : isoBudgetMin;
+    const isochronePromise = computeIsochrone({ maps, mode: goMode, origin: location, budgetMin: isoBudgetAtNormalPace }).catch(
+      (e) => {
+        console.warn('isochrone failed, skip reachability filter:', e?.message || e);
+        return null;
+      }
+    );
+    const intentProfile = await buildIntentProfile(mood, parsed.data.categories);
+    onStage?.({
+      stage: 'intent',
+      intent: {
+        primaryIntent: intentProfile.primaryIntent,
+        confidence: intentProfile.confidence,
+        keywords: intentProfile.keywords,
+        source: intentProfile.source,
+      },
+    });
+
+    const intentKeywords = intentProfile.keywords;
+    const searchKeywords = (intentKeywords?.length ? intentKeywords : defaultBrowseKeywords()).slice(0, 8);
+    const intent = { primary: intentProfile.primaryIntent as IntentPrimary, strong: intentProfile.confidence >= 0.55 };
+
+    const poiCandidates = await searchPois({ maps, location: searchLocation, radius, city: scopedCity, keywords: searchKeywords });
+    // 若意图搜索一个都没拉到，自动 fallback 到通用类目（保证“总有结果”）
+    if (poiCandidates.length === 0 && intentKeywords.length > 0) {
+      poiCandidates.push(
+        ...(await searchPois({ maps, location: searchLocation, radius, city: scopedCity, keywords: defaultBrowseKeywords() }))
+      );
+    }
+
+    const unique = dedupePois(poiCandidates);
+
+    const excluded = new Set(parsed.data.exclude.map((x) => x.trim()).filter(Boolean));
+    let pool = unique.filter((p) => !excluded.has(p.id) && !excluded.has(p.location));
+    if (pool.length === 0 && unique.length > 0) {
+      relaxNotes.push(`附近符合条件的 ${unique.length} 个地点你都已经看过了，本次允许重复推荐。`);
+      pool = unique;
+    }
+
+    // 评分/人均：只筛“有数据且不达标”的；筛空了就放宽并说明
+    const { minRating, maxCostPerPerson } = parsed.data;
+    if (typeof minRating === 'number' || typeof maxCostPerPerson === 'number') {
+      const qualified = pool.filter(
+        (p) =>
+          !(typeof minRating === 'number' && typeof p.rating === 'number' && p.rating < minRating) &&
+          !(typeof maxCostPerPerson === 'number' && typeof p.costPerPerson === 'number' && p.costPerPerson > maxCostPerPerson)
+      );
+      const conds = [
+        ...(typeof minRating === 'number' ? [`评分≥${minRating}`] : []),
+        ...(typeof maxCostPerPerson === 'number' ? [`人均≤${maxCostPerPerson}元`] : []),
+      ].join('、');
+      if (qualified.length === 0 && pool.length > 0) {
+        relaxNotes.push(`附近没有满足 ${conds} 的地点，已忽略该条件。`);
+      } else {
+        if (qualified.length < pool.length) relaxNotes.push(`已按 ${conds} 过滤掉 ${pool.length - qualified.length} 个地点。`);
+        pool = qualified;
+      }
+    }
+
+    const limit = pool.slice(0, 18);
+    if (limit.length === 0) {
+      return reply(200, {
+        ok: true,
+        empty: true,
+        seed,
+        message: '没有找到合适的附近地点（可尝试扩大时间段或切换交通方式）',
+      });
+    }
+
+    // IMPORTANT: Vercel 线上环境很容易超时；这里采用“距离粗筛 + 少量路径规划精算”策略：
+    // - 先用 POI 的 distance（或哈弗辛）估算往返时间，挑出可行候选
+    // - 再对权重靠前的 ~15 个候选批量查一次距离矩阵，用真实路网用时替换估算
+    // - 只对 1~3 个候选做路径规划（去/回），避免 N*2 次调用导致 500 timeout
+    const originPt = { lng: origin.lng, lat: origin.lat };
+    const { strategy, source: strategySource } = resolveRankingStrategy(parsed.data.strategy);
+    const idealOneWay = strategy.idealOneWay(safeAvailableMin);
+
+    let minStayMin = parsed.data.minStayMin ?? inferMinStayMin({ mood, intentKeywords, availableMin: safeAvailableMin });
+    minStayMin = clamp(minStayMin, 0, Math.max(0, safeAvailableMin - 10));
+
+    // 营业时间：按“出发时刻 + 去程”推到达时刻，停留期间关门的候选剔除或降权（每个剔除都记原因）
+    const arrivalLocal = (travelMin: number) =>
+      localParts(new Date(timeWindow.departAt.getTime() + travelMin * 60000), timeWindow.timezone);
+    const hoursRejected: Array<{ name: string; openTime: string; reason: string }> = [];
+    const dropLog = new Map<string, { name: string; failed: Array<{ filter: DropFilter; detail: string }> }>();
+    const drop = (poi: { id: string; name: string }, filter: DropFilter, detail: string) => {
+      const hit = dropLog.get(poi.id) ?? { name: poi.name, failed: [] };
+      hit.failed.push({ filter, detail });
+      dropLog.set(poi.id, hit);
+    };
+    const weather = await weatherPromise;
+    const weatherBias = weatherIndoorBias(weather);
+
+    const mapped = limit
+      .map((poi) => {
+        const [dlng, dlat] = poi.location.split(',').map(Number);
+        // 单程时 POI 的 distance 是相对走廊中点的，不能直接用
+        const dist =
+          !oneWay && typeof poi.distanceMeter === 'number' && poi.distanceMeter > 0
+            ? poi.distanceMeter
+            : haversineMeters(originPt, { lng: dlng, lat: dlat });
+        const backDist = oneWay ? haversineMeters({ lng: dlng, lat: dlat }, end!) : dist;
+        const oneWayMin = estTravelMin(goMode, dist, effort);
+        const backMinEst = estTravelMin(backMode, backDist, effort);
+        const travelMinEst = oneWayMin + backMinEst;
+        const playMinEst = safeAvailableMin - travelMinEst;
+        const novelty = 0.7 + rng() * 0.6;
+        const match = intentMatchScore({
+          keywords: intentKeywords,
+          name: poi.name,
+          address: poi.address,
+          category: poi.category,
+        });
+        const affinity = poiAffinity(intent.primary, poi);
+        // 只有当“意图关键词”存在时，才做强约束过滤；否则不要误杀。
+        const requiresMatch = intentKeywords.length > 0;
+        if (requiresMatch && match.hits === 0) {
+          drop(poi, 'intent_miss', `名称/地址/类目没有命中关键词：${intentKeywords.join('、')}`);
+          return null;
+        }
+
+        const hours = parseOpeningHours(poi.openTime);
+        // 营业时间和夜间时段都跟着到达时刻走：距离矩阵改了去程用时后要按新的到达时刻重判
+        const timingAt = (goMin: number, playMin: number) => {
+          const arrival = arrivalLocal(goMin);
+          const open = hours && playMin >= 0 ? checkOpenDuring(hours, arrival, playMin) : null;
+          const closed = open && (open.status === 'closed' || (open.status === 'partial' && open.openMin < minStayMin)) ? open.reason : null;
+          // 能待够最短停留但玩不满：按“能开着的比例”降权
+          const hoursFactor = open?.status === 'partial' ? clamp(open.openMin / Math.max(1, playMin), 0.3, 1) : 1;
+          // 天黑后：江边/公园/偏僻景点降权或剔除（剔除在后面统一做，方便放宽），灯亮人多的地方加分
+          const nightPhase = nightPhaseDuring(arrival, Math.max(0, playMin), nightCfg);
+          return { closed, hoursFactor, nightPhase, night: judgeNightSafety(poi, nightPhase, nightCfg) };
+        };
+        const timing = timingAt(oneWayMin, playMinEst);
+        if (timing.closed) {
+          hoursRejected.push({ name: poi.name, openTime: poi.openTime!, reason: timing.closed });
+          drop(poi, 'hours', `${poi.openTime}：${timing.closed}`);
+          return null;
+        }
+        const { hoursFactor, nightPhase, night } = timing;
+
+        // 雨天/高温：室内加分、露天减分；用户明确要去公园等强意图时只轻推
+        const weatherFactor = weatherBias.bias
+          ? clamp(1 + weatherBias.bias * poiIndoorness(poi) * (intent.strong ? 0.3 : 0.6), 0.3, 1.8)
+          : 1;
+        // 评分当作质量信号：3.5 分为中性；吃喝类最看口碑，权重更大。没有评分不加不减
+        const ratingFactor =
+          typeof poi.rating === 'number' ? clamp(1 + (poi.rating - 3.5) * (intent.primary === 'food' ? 0.35 : 0.2), 0.7, 1.5) : 1;
+        // 少走路/推车：有座位的加分、爬坡台阶多的减分（轮椅/婴儿车时台阶多的后面直接剔除）
+        const comfortFactor = effortFactor(effort, poi);
+        // 距离/新鲜感/命中的权重和亲和度惩罚由排序策略决定（意图强时距离占比更低、冲突类罚得更狠）
+        const features: RankingFeatures = {
+          novelty,
+          match: match.score,
+          affinity,
+          factors: { hours: hoursFactor, weather: weatherFactor, rating: ratingFactor, comfort: comfortFactor, night: night.factor },
+        };
+        // 往返用时会被距离矩阵更新，权重要能按新的用时重算
+        const breakdownAt = (travelMin: number): ScoreBreakdown => ({
+          ...scoreWithStrategy(strategy, features, { travelMin, idealOneWay, intentStrong: intent.strong }),
+          novelty,
+          match: match.score,
+          affinity,
+        });
+        const scoreAt = (travelMin: number) => breakdownAt(travelMin).weight;
+        const weight = scoreAt(travelMinEst);
+        return {
+          poi,
+          oneWayMin,
+          backMinEst,
+          travelMinEst,
+          playMinEst,
+          weight,
+          scoreAt,
+          breakdownAt,
+          features,
+          travelSource: 'estimate' as 'estimate' | 'matrix',
+          matchHits: match.hits,
+          affinity,
+          hours,
+          timingAt,
+          nightPhase,
+          night,
+        };
+      })
+      .filter((x) => x !== null)
+      .filter((x) => {
+        if (x.playMinEst >= 0) return true;
+        drop(x.poi, 'too_far', `往返估算 ${x.travelMinEst} 分，超出可用 ${safeAvailableMin} 分`);
+        return false;
+      });
+
+    // 直线估算在宜昌很容易偏（过长江要绕桥、山路绕行）：对权重前 N 个候选批量查“候选 → 起点/终点”路网用时。
+    // 高德距离测量是多起点→单终点，这里把候选当起点；往返时去/回共用一次查询。失败就保留估算。
+    const matrixPool = [...mapped].sort((a, b) => b.weight - a.weight).slice(0, Math.max(0, MATRIX_TOP_N));
+    let matrixMeasured = 0;
+    // 按路网用时到达后才发现关门的候选（poi.id → 原因）
+    const closedByMatrix = new Map<string, string>();
+    if (matrixPool.length) {
+      try {
+        const travelMatrix = createTravelMatrix(maps);
+        const origins = matrixPool.map((c) => c.poi.location);
+        const lookups = new Map<string, Promise<MatrixCell[]>>();
+        const lookup = (m: Mode, destination: string) => {
+          const k = `${matrixBasis(m)}:${destination}`;
+          if (!lookups.has(k)) lookups.set(k, travelMatrix({ basis: matrixBasis(m), origins, destination }));
+          return lookups.get(k)!;
+        };
+        const [goCells, backCells] = await Promise.all([lookup(goMode, location), lookup(backMode, endLocation)]);
+        matrixPool.forEach((c, i) => {
+          const go = matrixMin(goMode, goCells[i], effort);
+          const back = matrixMin(backMode, backCells[i], effort);
+          if (go === null || back === null) return;
+          c.oneWayMin = go;
+          c.backMinEst = back;
+          c.travelMinEst = go + back;
+          c.playMinEst = safeAvailableMin - c.travelMinEst;
+          const timing = c.timingAt(go, c.playMinEst);
+          if (timing.closed) closedByMatrix.set(c.poi.id, timing.closed);
+          c.features.factors.hours = timing.hoursFactor;
+          c.features.factors.night = timing.night.factor;
+          c.nightPhase = timing.nightPhase;
+          c.night = timing.night;
+          c.weight = c.scoreAt(c.travelMinEst);
+          c.travelSource = 'matrix';
+          matrixMeasured += 1;
+        });
+      } catch (e) {
+        console.warn('travel matrix failed, keep estimates:', e instanceof Error ? e.message : e);
+      }
+    }
+    // 没被距离矩阵测到的候选只有直线估算：落在搜索圆里、却在等时圈外（隔江/绕山）的直接剔除
+    const isochrone = await isochronePromise;
+    const isoRejected: Array<{ name: string; reason: string }> = [];
+    const timed = mapped.filter((x) => {
+      const closed = closedByMatrix.get(x.poi.id);
+      if (closed) {
+        hoursRejected.push({ name: x.poi.name, openTime: x.poi.openTime!, reason: closed });
+        drop(x.poi, 'hours', `${x.poi.openTime}：${closed}`);
+        return false;
+      }
+      if (x.playMinEst >= 0) return true;
+      drop(x.poi, 'too_far', `路网往返 ${x.travelMinEst} 分，超出可用 ${safeAvailableMin} 分`);
+      return false;
+    });
+    let reachable = timed.filter((x) => {
+      if (!isochrone || x.travelSource === 'matrix') return true;
+      const [lng, lat] = String(x.poi.location).split(',').map(Number);
+      if (isInsidePolygon({ lng, lat }, isochrone.polygon)) return true;
+      isoRejected.push({ name: x.poi.name, reason: `不在${modeLabel(goMode)} ${isochrone.budgetMin} 分钟可达范围内` });
+      drop(x.poi, 'isochrone', isoRejected[isoRejected.length - 1].reason);
+      return false;
+    });
+    if (reachable.length === 0 && timed.length > 0) {
+      relaxNotes.push('按可达范围筛完一个都不剩，已忽略可达范围（结果可能略远）。');
+      reachable = timed;
+      isoRejected.length = 0;
+    }
+
+    // 体力档位：步行单程超过上限的、（轮椅/婴儿车时）台阶多的景点剔除；全剔光就放宽
+    const effortRejected: Array<{ name: string; reason: string }> = [];
+    if (effort !== 'normal') {
+      const cap = effortCfg.maxWalkLegMin;
+      const comfortable = reachable.filter((x) => {
+        if (effortCfg.excludeStairs && isStairHeavy(x.poi)) {
+          effortRejected.push({ name: x.poi.name, reason: '台阶/爬坡多，不方便轮椅和婴儿车' });
+          drop(x.poi, 'effort', '台阶/爬坡多');
+          return false;
+        }
+        const walkMin = Math.max(goMode === 'walk' ? x.oneWayMin : 0, backMode === 'walk' ? x.backMinEst : 0);
+        if (cap !== null && walkMin > cap) {
+          effortRejected.push({ name: x.poi.name, reason: `单程步行约 ${walkMin} 分，超过${effortCfg.label}上限 ${cap} 分` });
+          drop(x.poi, 'effort', `单程步行约 ${walkMin} 分 > ${cap} 分`);
+          return false;
+        }
+        return true;
+      });
+      if (comfortable.length === 0 && reachable.length > 0) {
+        relaxNotes.push(`附近没有适合“${effortCfg.label}”的地点，已忽略体力限制（可换骑行/公交/驾车）。`);
+        effortRejected.length = 0;
+      } else {
+        reachable = comfortable;
+      }
+    }
+
+    // 夜间安全：命中“剔除”规则的拿掉；全拿光就放宽（降权仍然保留）
+    const nightRejected: Array<{ name: string; reason: string }> = [];
+    const nightSafe = reachable.filter((x) => {
+      if (!x.night.excluded) return true;
+      const labels = (x.night as NightVerdict).fired.filter((f) => f.effect === 'exclude').map((f) => f.label);
+      nightRejected.push({ name: x.poi.name, reason: `${phaseLabel(x.nightPhase)}：${labels.join('；')}` });
+      drop(x.poi, 'night', nightRejected[nightRejected.length - 1].reason);
+      return false;
+    });
+    if (nightSafe.length === 0 && reachable.length > 0) {
+      if (nightRejected.length) relaxNotes.push('天黑后附近只剩江边/公园/景区一类地点，已放宽夜间安全限制：请结伴、走亮处和大路。');
+      nightRejected.length = 0;
+    } else {
+      reachable = nightSafe;
+    }
+    const nightRules = summarizeNightRules(mapped.map((x) => x.night));
+    const tripPhase = nightPhaseDuring(timeWindow.departLocal, safeAvailableMin, nightCfg);
+    const nightNote = nightRules.length ? describeNightRules(tripPhase, nightRules) : undefined;
+
+    // 离线评测用：硬性筛选（营业/可达/体力/夜间）之后、和策略有关的筛选之前的候选
+    const minOneWay = intentKeywords.length > 0 ? 1 : 6;
+    const candidateSet: RecordedCandidateSet | undefined = parsed.data.debug
+      ? {
+          mood,
+          availableMin: safeAvailableMin,
+          intent,
+          minStayMin,
+          minOneWay,
+          candidates: reachable.map((x) => ({
+            name: x.poi.name,
+            category: x.poi.category,
+            oneWayMin: x.oneWayMin,
+            travelMin: x.travelMinEst,
+            ...x.features,
+          })),
+        }
+      : undefined;
+
+    // 如果存在足够“同意图”的候选，进一步压制强冲突类，避免榜单被“碰巧命中地址词”的 POI 霸榜。
+    const hasHighAffinity = reachable.some((x) => typeof x.affinity === 'number' && x.affinity >= 0.7);
+    const intentFiltered =
+      intent.strong && hasHighAffinity
+        ? reachable.filter((x) => {
+            if (typeof x.affinity !== 'number' || x.affinity >= strategy.affinityCutoff) return true;
+            drop(x.poi, 'affinity', `类别亲和度 ${round3(x.affinity)} < ${strategy.affinityCutoff}（与意图 ${intent.primary} 冲突）`);
+            return false;
+          })
+        : reachable;
+
+    // 先按最短停留过滤；如果一个都没了，允许自动放宽并解释
+    const longEnough = (x: (typeof reachable)[number]) => {
+      if (x.playMinEst >= minStayMin) return true;
+      drop(x.poi, 'min_stay', `预估可停留 ${x.playMinEst} 分 < 最短停留 ${minStayMin} 分`);
+      return false;
+    };
+    let rough = intentFiltered.filter(longEnough);
+    if (rough.length === 0 && parsed.data.allowRelax) {
+      const relaxed = Math.min(minStayMin, 20);
+      if (relaxed < minStayMin) {
+        relaxNotes.push(`为确保给出方案，已将最短停留从 ${minStayMin} 分钟放宽到 ${relaxed} 分钟。`);
+        minStayMin = relaxed;
+      }
+      rough = reachable.filter(longEnough);
+    }
+
+    // 默认避免“太近没意思”，但如果因此一个都没了，就放宽（餐饮类通常就近更合理）。
+    rough = rough.filter((x) => {
+      if (x.oneWayMin >= minOneWay) return true;
+      drop(x.poi, 'too_close', `单程 ${x.oneWayMin} 分 < ${minOneWay} 分，太近`);
+      return false;
+    });
+    if (rough.length === 0) {
+      // 最终兜底：允许很近的点（尤其是餐饮类）
+      relaxNotes.push('附近地点较集中，已允许推荐更近的地点。');
+      rough = reachable.filter((x) => x.playMinEst >= minStayMin);
+    }
+
+    rough = rough.sort((a, b) => b.weight - a.weight);
+    rough.slice(10).forEach((x, i) => drop(x.poi, 'rank', `权重 ${round3(x.weight)} 排第 ${i + 11}，只取前 10`));
+    rough = rough.slice(0, 10); // keep small for stability
+
+    if (rough.length === 0) {
+      return reply(200, {
+        ok: true,
+        empty: true,
+        seed,
+        message:
+          mapped.length === 0 && hoursRejected.length
+            ? '附近的地点在你到达时大多不营业（可换个时间段再试）'
+            : '时间段有点紧，往返后游玩时间不足（建议增加时长或切换交通方式）',
+        hoursRejected: hoursRejected.length ? hoursRejected : undefined,
+      });
+    }
+
+    const candidatesForAi = rough.slice(0, 12).map((c) => ({
+      name: c.poi.name,
+      category: c.poi.category,
+      address: c.poi.address,
+      location: c.poi.location,
+      oneWayMinEst: c.oneWayMin,
+      playMinEst: c.playMinEst,
+      travelSource: c.travelSource,
+      rating: c.poi.rating,
+      costPerPerson: c.poi.costPerPerson,
+      ...(parsed.data.debug ? { score: roundBreakdown(c.breakdownAt(c.travelMinEst)) } : {}),
+    }));
+    const topCandidates = candidatesForAi.slice(0, 3);
+    onStage?.({ stage: 'candidates', candidates: topCandidates });
+    // 公交规划必须带城市；“不限城市”时用起点逆地理拿 citycode
+    const routeCity = goMode === 'transit' || backMode === 'transit' ? await resolveTransitCity({ maps, location, scopedCity }) : undefined;
+
+    const itinerary =
+      parsed.data.plan === 'itinerary'
+        ? await planItinerary({
+            maps,
+            goMode,
+            backMode,
+            origin: location,
+            end: endLocation,
+            pool: rough,
+            availableMin: safeAvailableMin,
+            city: routeCity,
+            effort,
+            arrivalAt: arrivalLocal,
+            nightCfg,
+            signal: req.signal,
+          })
+        : null;
+    if (parsed.data.plan === 'itinerary' && !itinerary) {
+      relaxNotes.push('时间不够串联 2 个以上地点，已改为单点往返推荐。');
+    }
+
+    const routing: { tried: number; rejected: Array<{ name: string; reason: string }> } = { tried: 0, rejected: [] };
+    // 按权重做真正的加权随机抽样；抽中的排第一，其余按权重兜底（精算失败时依次尝试）
+    const picked = weightedRandom(rough, rng) ?? rough[0];
+    const ranked = [picked, ...rough.filter((x) => x !== picked)];
+
+    let chosen = ranked[0];
+    let goMin: number;
+    let backMin: number;
+    let playMin: number;
+    let polyline: string;
+    let transitSummary: { go?: string; back?: string } | null = null;
+    if (itinerary) {
+      chosen = ranked.find((x) => x.poi.location === itinerary.stops[0].location) ?? chosen;
+      // 串联时 goMin/backMin 只是第一段和最后一段路，playMin 是各站停留之和；
+      // 站与站之间的路程不在这三项里，完整的时间账看 itinerary.legs / travelMin
+      goMin = itinerary.legs[0].min;
+      backMin = itinerary.legs[itinerary.legs.length - 1].min;
+      playMin = itinerary.stayMin;
+      polyline = itinerary.legs.map((l) => l.polyline).filter(Boolean).join(';');
+    } else {
+      // 粗筛用的是直线/估算距离，精算后可能超时：沿排序往下换候选（有上限），直到真正闭环。
+      type RoutedPick = {
+        c: (typeof ranked)[number];
+        goMin: number;
+        backMin: number;
+        playMin: number;
+        polyline: string;
+        goSummary?: string;
+        backSummary?: string;
+        hoursNote?: string;
+      };
+      let fallback: RoutedPick | null = null;
+      let accepted: RoutedPick | null = null;
+      for (const c of ranked.slice(0, Math.max(1, ROUTE_MAX_ATTEMPTS))) {
+        // 客户端已断开：不再精算下一个候选
+        req.signal?.throwIfAborted();
+        routing.tried += 1;
+        let trip: Awaited<ReturnType<typeof routeRoundTrip>>;
+        try {
+          trip = await routeRoundTrip({
+            maps,
+            goMode,
+            backMode,
+            origin: location,
+            destination: c.poi.location,
+            returnTo: endLocation,
+            city: routeCity,
+            departAt: timeWindow.departLocal,
+            // 回程大约在空档结束前出发，公交按这个时刻查班次
+            returnAt: localParts(new Date(timeWindow.end.getTime() - (c.backMinEst || 0) * 60000), timeWindow.timezone),
+            effort,
+          });
+        } catch (e) {
+          routing.rejected.push({ name: c.poi.name, reason: `路线规划失败（${e instanceof Error ? e.message : 'unknown'}）` });
+          continue;
+        }
+        if (!trip.routed) {
+          routing.rejected.push({ name: c.poi.name, reason: '高德未返回可用路线' });
+          continue;
+        }
+        if (effortCfg.maxWalkLegMin !== null && trip.walkMaxMin > effortCfg.maxWalkLegMin) {
+          routing.rejected.push({
+            name: c.poi.name,
+            reason: `精算后有一段步行约 ${trip.walkMaxMin} 分，超过${effortCfg.label}上限 ${effortCfg.maxWalkLegMin} 分`,
+          });
+          continue;
+        }
+        let tripPlayMin = safeAvailableMin - (trip.goMin + trip.backMin);
+        if (tripPlayMin < 0) {
+          routing.rejected.push({
+            name: c.poi.name,
+            reason: `精算往返 ${trip.goMin + trip.backMin} 分（去${trip.goMin}+回${trip.backMin}），超出可用 ${safeAvailableMin} 分`,
+          });
+          continue;
+        }
+        // 精算后到达时间变了，按真实到达再核一次营业时间
+        let hoursNote: string | undefined;
+        if (c.hours) {
+          const open = checkOpenDuring(c.hours, arrivalLocal(trip.goMin), tripPlayMin);
+          if (open.status === 'closed' || (open.status === 'partial' && open.openMin < minStayMin)) {
+            routing.rejected.push({ name: c.poi.name, reason: `营业时间 ${c.poi.openTime}：${open.reason}` });
+            continue;
+          }
+          if (open.status === 'partial') {
+            tripPlayMin = open.openMin;
+            hoursNote = open.reason;
+          }
+        }
+        const candidate = {
+          c,
+          goMin: trip.goMin,
+          backMin: trip.backMin,
+          playMin: tripPlayMin,
+          polyline: trip.polyline,
+          goSummary: trip.goSummary,
+          backSummary: trip.backSummary,
+          hoursNote,
+        };
+        if (tripPlayMin >= minStayMin) {
+          accepted = candidate;
+          break;
+        }
+        routing.rejected.push({ name: c.poi.name, reason: `精算后只能停留 ${tripPlayMin} 分，低于期望的 ${minStayMin} 分` });
+        if (!fallback || tripPlayMin > fallback.playMin) fallback = candidate;
+      }
+
+      // 都没达到最短停留时，退而求其次：用“能闭环且停留最长”的那个
+      const best = accepted ?? fallback;
+      if (!best) {
+        return reply(200, {
+          ok: true,
+          empty: true,
+          seed,
+          message: `已尝试 ${routing.tried} 个候选，精算后都无法在时间内往返（建议增加时长或切换交通方式）。`,
+          routing,
+          hoursRejected: hoursRejected.length ? hoursRejected : undefined,
+        });
+      }
+      if (!accepted) routing.rejected = routing.rejected.filter((r) => r.name !== best.c.poi.name);
+
+      chosen = best.c;
+      goMin = best.goMin;
+      backMin = best.backMin;
+      playMin = best.playMin;
+      polyline = best.polyline;
+      transitSummary = best.goSummary || best.backSummary ? { go: best.goSummary, back: best.backSummary } : null;
+      if (best.hoursNote) relaxNotes.push(`营业时间限制：${best.hoursNote}，停留时间已按关门时间缩短。`);
+      if (playMin < minStayMin && parsed.data.allowRelax) {
+        relaxNotes.push(`受时间/距离影响，实际可停留约 ${playMin} 分钟，低于期望的 ${minStayMin} 分钟。你可以适当延长结束时间或切换交通方式。`);
+      }
+    }
+
+    const effortNote =
+      effort === 'normal'
+        ? undefined
+        : `${effortCfg.label}：${effortCfg.maxWalkLegMin !== null ? `单段步行不超过 ${effortCfg.maxWalkLegMin} 分钟，` : ''}优先有座位的地方${
+            effortCfg.excludeStairs ? '，避开台阶多的景点' : ''
+          }`;
+    // 路线已精算完，先把 Top1 推出去，报告慢慢写
+    onStage?.({
+      stage: 'top1',
+      result: {
+        id: chosen.poi.id,
+        name: chosen.poi.name,
+        category: chosen.poi.category,
+        address: chosen.poi.address,
+        location: chosen.poi.location,
+        openTime: chosen.poi.openTime,
+        rating: chosen.poi.rating,
+        costPerPerson: chosen.poi.costPerPerson,
+        goMin,
+        backMin,
+        playMin,
+        goMode,
+        backMode,
+        polyline,
+      },
+      itinerary: itinerary ?? undefined,
+      relaxNotes: relaxNotes.length ? [...relaxNotes] : undefined,
+    });
+    const ai = await glmReportAndGuide(
+      {
+        mood,
+        goMode,
+        backMode,
+        oneWay,
+        date: timeWindow.departLocal.date,
+        startTime,
+        endTime,
+        availableMin: safeAvailableMin,
+        weather: weather ? weatherBias.note || describeWeather(weather) : undefined,
+        effort: effortNote,
+        night: nightNote,
+        minStayMin,
+        intent: { primaryIntent: intentProfile.primaryIntent, keywords: intentProfile.keywords },
+        candidatesTop3: topCandidates.map((c) => ({
+          name: c.name,
+          category: c.category,
+          address: c.address,
+          oneWayMinEst: c.oneWayMinEst || 0,
+          playMinEst: c.playMinEst || 0,
+          rating: c.rating,
+          costPerPerson: c.costPerPerson,
+        })),
+        chosenTop1: {
+          name: chosen.poi.name,
+          category: chosen.poi.category,
+          address: chosen.poi.address,
+          goMin,
+          backMin,
+          playMin,
+          rating: chosen.poi.rating,
+          costPerPerson: chosen.poi.costPerPerson,
+        },
+        itinerary: itinerary?.stops.map((s, i) => ({ name: s.name, stayMin: s.stayMin, legMin: itinerary.legs[i].min })),
+      },
+      onStage ? (delta) => onStage({ stage: 'report', delta }) : undefined,
+      req.signal
+    );
+
+    const backWord = oneWay ? '到终点' : '回';
+    const chosenNight: NightVerdict | undefined = chosen.night;
+    const bizLine = [
+      ...(typeof chosen.poi.rating === 'number' ? [`评分 ${chosen.poi.rating}`] : []),
+      ...(typeof chosen.poi.costPerPerson === 'number' ? [`人均 ¥${chosen.poi.costPerPerson}`] : []),
+    ].join(' · ');
+    const reasons = [
+      itinerary
+        ? `时间闭环：路上${itinerary.travelMin}分 + 玩${itinerary.stayMin}分（共${itinerary.stops.length}站）`
+        : `时间闭环：去${goMin}分 + 玩${playMin}分 + ${backWord}${backMin}分`,
+      ...(oneWay ? ['单程：起点 → 目的地 → 终点（不回起点）'] : []),
+      `去程：${modeLabel(goMode)} ${goMin} 分`,
+      `${oneWay ? '到终点' : '回程'}：${modeLabel(backMode)} ${backMin} 分`,
+      ...(itinerary
+        ? [`串联行程：${itinerary.stops.map((s) => `${s.name}（停${s.stayMin}分）`).join(' → ')} → ${oneWay ? '终点' : '回起点'}`]
+        : []),
+      `交通方式：${goMode === backMode ? modeLabel(goMode) : `去${modeLabel(goMode)} / 回${modeLabel(backMode)}`}`,
+      ...(transitSummary?.go ? [`公交去程：${transitSummary.go}`] : []),
+      ...(transitSummary?.back ? [`公交回程：${transitSummary.back}`] : []),
+      ...(chosen.poi.openTime ? [`营业时间：${chosen.poi.openTime}`] : []),
+      ...(bizLine ? [`口碑：${bizLine}`] : []),
+      ...(isoRejected.length ? [`可达范围：${isoRejected.length} 个地点直线看着近但实际到不了，已剔除`] : []),
+      ...(matrixMeasured ? [`路网用时：前 ${matrixMeasured} 个候选按真实路网估算（非直线距离）`] : []),
+      ...(weather ? [`天气：${weatherBias.note || describeWeather(weather)}`] : []),
+      ...(effortNote ? [`体力：${effortNote}${effortSource === 'mood' ? '（从偏好推断）' : ''}`] : []),
+      ...(effortRejected.length ? [`体力过滤：${effortRejected.length} 个地点步行太远或台阶多，已跳过`] : []),
+      ...(nightNote ? [`夜间安全：${nightNote}`] : []),
+      ...(strategySource !== 'default' ? [`排序策略：${strategy.label}${strategySource === 'config' ? '（服务端默认）' : ''}`] : []),
+      ...(chosenNight?.fired.some((f) => f.effect !== 'boost')
+        ? [`夜间提醒：${chosen.poi.name}（${chosenNight.fired.map((f) => f.label).join('；')}），请结伴、走亮处`]
+        : []),
+      ...(hoursRejected.length ? [`营业时间过滤：${hoursRejected.length} 个地点在你到达时不营业，已跳过`] : []),
+      mood ? `偏好提示：${mood}` : '随机小确幸',
+      `意图识别：${intentProfile.primaryIntent}${intentSourceLabel(intentProfile.source)}`,
+      `AI文案：${ai.source === 'glm' ? '已生成' : '兜底文案'}`,
+      ...(routing.rejected.length ? [`精算换候选：共尝试 ${routing.tried} 个，前 ${routing.rejected.length} 个未能闭环`] : []),
+    ];
+
+    return reply(200, {
+      ok: true,
+      city: scopedCity || '不限城市',
+      seed,
+      input: {
+        origin,
+        end: oneWay ? end : undefined,
+        mode,
+        goMode,
+        backMode,
+        startTime,
+        endTime,
+        timezone: timeWindow.timezone,
+        startAt: timeWindow.startLocal.iso,
+        endAt: timeWindow.endLocal.iso,
+        departAt: timeWindow.departLocal.iso,
+        availableMin: safeAvailableMin,
+        plan: itinerary ? 'itinerary' : 'single',
+        effort,
+        strategy: strategy.name,
+      },
+      intent: {
+        primaryIntent: intentProfile.primaryIntent,
+        confidence: intentProfile.confidence,
+        keywords: intentProfile.keywords,
+        explain: intentProfile.explain,
+        source: intentProfile.source,
+      },
+      relaxNotes: relaxNotes.length ? relaxNotes : undefined,
+      routing: routing.tried ? routing : undefined,
+      hoursRejected: hoursRejected.length ? hoursRejected : undefined,
+      weather: weather ?? undefined,
+      effort: effort === 'normal' ? undefined : { profile: effort, label: effortCfg.label, source: effortSource, rejected: effortRejected },
+      nightSafety: nightRules.length
+        ? { level: nightCfg.level, phase: tripPhase, rules: nightRules, rejected: nightRejected }
+        : undefined,
+      // 多边形不随结果返回，前端要画就按 mode/budgetMin 调 /api/isochrone（有缓存）
+      isochrone: isochrone
+        ? { mode: isochrone.mode, budgetMin: isochrone.budgetMin, source: isochrone.source, rejected: isoRejected }
+        : undefined,
+      candidates: topCandidates,
+      ranking: { strategy: strategy.name, label: strategy.label, source: strategySource },
+      debug: parsed.data.debug
+        ? {
+            strategy: strategy.name,
+            idealOneWay,
+            minStayMin,
+            intent,
+            chosen: { name: chosen.poi.name, score: roundBreakdown(chosen.breakdownAt(chosen.travelMinEst)) },
+            ranked: rough.map((c) => ({ name: c.poi.name, weight: round3(c.weight), travelSource: c.travelSource })),
+            dropped: [...dropLog.entries()]
+              .filter(([id]) => !rough.some((c) => c.poi.id === id))
+              .map(([, v]) => v),
+            candidateSet,
+          }
+        : undefined,
+      reportMarkdown: [
+        `![路线概览](/api/staticmap?origin=${encodeURIComponent(location)}&dest=${encodeURIComponent(chosen.poi.location)}${
+          oneWay ? `&end=${encodeURIComponent(endLocation)}` : ''
+        }&zoom=13&size=900*360)`,
+        ``,
+        ai.reportMarkdown,
+        ``,
+        `---`,
+        `### 精算后的时间闭环（Top1）`,
+        `- 去：${goMin} 分（${modeLabel(goMode)}）`,
+        `- 玩：${playMin} 分`,
+        `- ${backWord}：${backMin} 分（${modeLabel(backMode)}）`,
+        ...(bizLine || chosen.poi.photoUrl || chosen.poi.tel
+          ? [
+              ``,
+              `### 店铺信息（${chosen.poi.name}）`,
+              ...(chosen.poi.photoUrl ? [`![${chosen.poi.name}](${chosen.poi.photoUrl})`] : []),
+              ...(bizLine ? [`- ${bizLine}`] : []),
+              ...(chosen.poi.tel ? [`- 电话：${chosen.poi.tel}`] : []),
+            ]
+          : []),
+        ...(itinerary
+          ? [
+              ``,
+              `### 串联行程（精算）`,
+              ...itinerary.legs.flatMap((l, i) => [
+                `- ${l.fromName} → ${l.toName}：${modeLabel(l.mode)} ${l.min} 分`,
+                ...(i < itinerary.stops.length ? [`- 在 ${itinerary.stops[i].name} 停留 ${itinerary.stops[i].stayMin} 分`] : []),
+              ]),
+            ]
+          : []),
+        ...(relaxNotes.length ? [``, `### 放宽说明`, ...relaxNotes.map((x) => `- ${x}`)] : []),
+      ].filter(Boolean).join('\n'),
+      result: {
+        id: chosen.poi.id,
+        name: chosen.poi.name,
+        category: chosen.poi.category,
+        address: chosen.poi.address,
+        location: chosen.poi.location,
+        openTime: chosen.poi.openTime,
+        rating: chosen.poi.rating,
+        costPerPerson: chosen.poi.costPerPerson,
+        tel: chosen.poi.tel,
+        photoUrl: chosen.poi.photoUrl,
+        goMin,
+        backMin,
+        playMin,
+        goMode,
+        backMode,
+        polyline,
+        reasons,
+        guide: ai.guide,
+      },
+      itinerary: itinerary ?? undefined,
+    });
+
+    return reply(200, {
+      ok: true,
+      empty: true,
+      message: '路线规划有点慢（网络波动）。请再点一次“随机一个方案”。',
+    });
+  } catch (err) {
+    // 客户端断开后中止的请求：没人收结果，也不算服务端错误
+    if (req.signal?.aborted) return reply(499, { error: 'client_closed' });
+    console.error(upstreamErrorDetail(err));
+    return reply(500, { error: 'server_error', message: err instanceof Error ? err.message : 'unknown' });
+  }
+}
+
+
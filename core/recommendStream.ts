@@ -0,0 +1,78 @@
+import type { CoreRequest, CoreResponse } from './http';
+import { handleRecommend, type RecommendStage } from './recommend';
+
+// POST /api/recommend-stream：输入和 /api/recommend 完全一样，结果按阶段推送，每行一个 JSON（NDJSON）：
+//   {"stage":"intent",…}      解析出的意图和搜索词
+//   {"stage":"candidates",…}  粗筛后的 Top3 候选（估算）
+//   {"stage":"top1",…}        精算路线后的 Top1（去/玩/回、路线、串联行程）
+//   {"stage":"report","delta":"…"}  报告正文，模型边写边推（可能有很多行）
+//   {"stage":"done","status":200,"body":{…}}  和 /api/recommend 相同的完整响应，以它为准
+// 还没进入第一阶段就结束的请求（参数错误、时间段不对、缺 Key、多人碰头）直接按普通 JSON 返回，状态码照旧。
+// 客户端中途断开时（req.signal）不再排队新的行，路线精算和大模型调用也随之中止。
+type StreamEvent = RecommendStage | { stage: 'done'; status: number; body: unknown };
+
+function line(e: StreamEvent) {
+  return `${JSON.stringify(e)}\n`;
+}
+
+function errorEvent(err: unknown): StreamEvent {
+  return { stage: 'done', status: 500, body: { error: 'server_error', message: err instanceof Error ? err.message : 'unknown' } };
+}
+
+export async function handleRecommendStream(req: CoreRequest): Promise<CoreResponse> {
+  const queue: string[] = [];
+  let finished = false;
+  let wake: (() => void) | null = null;
+  const push = (e: StreamEvent) => {
+    if (req.signal?.aborted) return;
+    queue.push(line(e));
+    wake?.();
+  };
+
+  let started!: () => void;
+  const firstStage = new Promise<null>((resolve) => {
+    started = () => resolve(null);
+  });
+  const result = handleRecommend(req, (s) => {
+    push(s);
+    started();
+  });
+  const early = await Promise.race([result, firstStage]);
+  if (early) return early;
+
+  result
+    .then(
+      (out) => push({ stage: 'done', status: out.status, body: out.json }),
+      (err: unknown) => push(errorEvent(err))
+    )
+    .finally(() => {
+      finished = true;
+      wake?.();
+    });
+  req.signal?.addEventListener('abort', () => {
+    queue.length = 0;
+    finished = true;
+    wake?.();
+  });
+
+  async function* lines() {
+    for (;;) {
+      if (queue.length) {
+        yield queue.shift()!;
+        continue;
+      }
+      if (finished) return;
+      await new Promise<void>((resolve) => {
+        wake = resolve;
+      });
+      wake = null;
+    }
+  }
+
+  return {
+    status: 200,
+    headers: { 'Content-Type': 'application/x-ndjson; charset=utf-8', 'Cache-Control': 'no-cache' },
+    stream: lines(),
+    streamError: (err) => line(errorEvent(err)),
+  };
+}
@@ -0,0 +1,55 @@
+import { z } from 'zod';
+import { computeIsochrone } from './isochrone';
+import { handleEgg, handleEggVerify } from './egg';
+import { reply, type CoreHandler, type CoreRequest, type CoreResponse } from './http';
+import { createMapProvider } from './mapProvider';
+import { handleRecommend } from './recommend';
+import { handleRecommendStream } from './recommendStream';
+import { handleStaticMap } from './staticMap';
+import { upstreamErrorDetail } from './upstream';
+
+// 全部接口的路由表：api/ 下每个文件对应一条，本地 Express 按这张表挂载
+export async function handleHealth(): Promise<CoreResponse> {
+  return reply(200, { ok: true });
+}
+
+const IsochroneQuerySchema = z.object({
+  origin: z.string().regex(/^-?\d+(\.\d+)?,-?\d+(\.\d+)?$/), // "lng,lat"
+  mode: z.enum(['walk', 'bike', 'drive', 'transit']).default('walk'),
+  // 单程时间预算（分钟）
+  minutes: z.coerce.number().int().min(5).max(180),
+});
+
+// GET /api/isochrone?origin=lng,lat&mode=walk&minutes=30 => 可达范围多边形（前端地图叠加用）
+export async function handleIsochrone(req: CoreRequest): Promise<CoreResponse> {
+  if (req.method !== 'GET') return reply(405, { error: 'method_not_allowed' });
+
+  const maps = createMapProvider();
+  if (!maps) return reply(500, { error: 'missing_env', message: 'Missing AMAP_WEB_SERVICE_KEY' });
+
+  const parsed = IsochroneQuerySchema.safeParse(req.query || {});
+  if (!parsed.success) return reply(400, { error: 'bad_request', detail: parsed.error.flatten() });
+
+  try {
+    const iso = await computeIsochrone({
+      maps,
+      mode: parsed.data.mode,
+      origin: parsed.data.origin,
+      budgetMin: parsed.data.minutes,
+    });
+    return reply(200, { ok: true, ...iso }, { 'Cache-Control': 'public, max-age=600' });
+  } catch (err) {
+    console.error(upstreamErrorDetail(err));
+    return reply(500, { error: 'server_error', message: err instanceof Error ? err.message : 'isochrone_failed' });
+  }
+}
+
+export const ROUTES: Array<{ path: string; handler: CoreHandler }> = [
+  { path: '/api/health', handler: handleHealth },
+  { path: '/api/recommend', handler: handleRecommend },
+  { path: '/api/recommend-stream', handler: handleRecommendStream },
+  { path: '/api/isochrone', handler: handleIsochrone },
+  { path: '/api/staticmap', handler: handleStaticMap },
+  { path: '/api/egg', handler: handleEgg },
+  { path: '/api/egg-verify', handler: handleEggVerify },
+];
@@ -0,0 +1,50 @@
+import { reply, type CoreRequest, type CoreResponse } from './http';
+import { createMapProvider, type MapMarker } from './mapProvider';
+
+function parseLngLat(s: unknown): { lng: number; lat: number } | null {
+  if (typeof s !== 'string' || !s) return null;
+  const [lngStr, latStr] = s.split(',');
+  const lng = Number(lngStr);
+  const lat = Number(latStr);
+  if (!Number.isFinite(lng) || !Number.isFinite(lat)) return null;
+  return { lng, lat };
+}
+
+// GET /api/staticmap?origin=lng,lat&dest=lng,lat[&end=lng,lat] => 静态图（报告里的路线概览）
+export async function handleStaticMap(req: CoreRequest): Promise<CoreResponse> {
+  const maps = createMapProvider();
+  if (!maps) return reply(500, { error: 'missing_env', message: 'Missing AMAP_WEB_SERVICE_KEY' });
+
+  if (req.method !== 'GET') return reply(405, { error: 'method_not_allowed' });
+
+  const origin = parseLngLat(req.query.origin);
+  const dest = parseLngLat(req.query.dest);
+  const end = parseLngLat(req.query.end); // 单程终点（可选）
+  const zoom = Number(req.query.zoom || 13);
+  const size = String(req.query.size || '750*300');
+
+  if (!origin && !dest) return reply(400, { error: 'bad_request', message: 'origin or dest required' });
+
+  const markers: MapMarker[] = [];
+  if (origin) markers.push({ label: 'A', color: '0x2563eb', location: `${origin.lng},${origin.lat}` });
+  if (dest) markers.push({ label: 'B', color: '0xef4444', location: `${dest.lng},${dest.lat}` });
+  if (end) markers.push({ label: 'C', color: '0x16a34a', location: `${end.lng},${end.lat}` });
+
+  const center = dest || origin!;
+
+  try {
+    const image = await maps.staticMap({
+      center: `${center.lng},${center.lat}`,
+      zoom: Math.max(3, Math.min(18, zoom)),
+      size,
+      markers,
+    });
+    return {
+      status: 200,
+      headers: { 'Content-Type': image.contentType, 'Cache-Control': 'public, max-age=300' },
+      binary: image.bytes,
+    };
+  } catch (e) {
+    return reply(500, { error: 'server_error', message: e instanceof Error ? e.message : 'staticmap_failed' });
+  }
+}
@@ -0,0 +1,185 @@
+// Time window parsing shared by the serverless functions.
+// Accepts either legacy "HH:mm" (today in the given timezone, rolling over midnight)
+// or ISO datetimes ("2026-10-19T17:30", "2026-10-19T17:30:00+08:00", "...Z").
+
+export const DEFAULT_TIMEZONE = 'Asia/Shanghai';
+// 一次空档最长 12 小时；最多提前 7 天规划（天气预报也只有几天）
+export const MAX_WINDOW_MIN = 12 * 60;
+export const MAX_LEAD_DAYS = 7;
+// 开始时间比“现在”早一点点（表单填的是当前分钟）不算过去
+const PAST_GRACE_MIN = 5;
+
+export type TimeWindow = {
+  timezone: string;
+  start: Date;
+  end: Date;
+  // 真正的出发时刻：窗口已开始时取“现在”，否则取开始时间
+  departAt: Date;
+  // departAt → end 的分钟数
+  availableMin: number;
+  startLocal: LocalParts;
+  endLocal: LocalParts;
+  departLocal: LocalParts;
+};
+
+export type LocalParts = {
+  date: string; // YYYY-MM-DD
+  hhmm: string; // HH:mm
+  minuteOfDay: number;
+  weekday: number; // 0=周日 … 6=周六
+  iso: string; // YYYY-MM-DDTHH:mm:ss+08:00
+};
+
+export type TimeWindowResult = { ok: true; window: TimeWindow } | { ok: false; message: string };
+
+function pad(n: number) {
+  return String(n).padStart(2, '0');
+}
+
+export function isValidTimeZone(timeZone: string) {
+  try {
+    new Intl.DateTimeFormat('en-US', { timeZone });
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+function wallClock(instant: Date, timeZone: string) {
+  const dtf = new Intl.DateTimeFormat('en-US', {
+    timeZone,
+    hourCycle: 'h23',
+    year: 'numeric',
+    month: '2-digit',
+    day: '2-digit',
+    hour: '2-digit',
+    minute: '2-digit',
+    second: '2-digit',
+  });
+  const parts: Record<string, number> = {};
+  for (const p of dtf.formatToParts(instant)) {
+    if (p.type !== 'literal') parts[p.type] = Number(p.value);
+  }
+  return parts as { year: number; month: number; day: number; hour: number; minute: number; second: number };
+}
+
+// 该时区在某一时刻相对 UTC 的偏移（分钟），例如 Asia/Shanghai => 480
+function tzOffsetMin(instant: Date, timeZone: string) {
+  const w = wallClock(instant, timeZone);
+  const asUtc = Date.UTC(w.year, w.month - 1, w.day, w.hour, w.minute, w.second);
+  return Math.round((asUtc - Math.floor(instant.getTime() / 1000) * 1000) / 60000);
+}
+
+function zonedToInstant(y: number, mo: number, d: number, h: number, mi: number, timeZone: string) {
+  const guess = Date.UTC(y, mo - 1, d, h, mi);
+  const offset = tzOffsetMin(new Date(guess), timeZone);
+  return new Date(guess - offset * 60000);
+}
+
+export function localParts(instant: Date, timeZone: string): LocalParts {
+  const w = wallClock(instant, timeZone);
+  const offset = tzOffsetMin(instant, timeZone);
+  const sign = offset >= 0 ? '+' : '-';
+  const abs = Math.abs(offset);
+  const date = `${w.year}-${pad(w.month)}-${pad(w.day)}`;
+  const hhmm = `${pad(w.hour)}:${pad(w.minute)}`;
+  return {
+    date,
+    hhmm,
+    minuteOfDay: w.hour * 60 + w.minute,
+    weekday: new Date(Date.UTC(w.year, w.month - 1, w.day)).getUTCDay(),
+    iso: `${date}T${hhmm}:${pad(w.second)}${sign}${pad(Math.floor(abs / 60))}:${pad(abs % 60)}`,
+  };
+}
+
+const HHMM_RE = /^(\d{1,2}):(\d{2})$/;
+const ISO_LOCAL_RE = /^(\d{4})-(\d{2})-(\d{2})[T ](\d{2}):(\d{2})(?::\d{2}(?:\.\d+)?)?$/;
+const ISO_OFFSET_RE = /^\d{4}-\d{2}-\d{2}[T ]\d{2}:\d{2}(?::\d{2}(?:\.\d+)?)?(?:Z|[+-]\d{2}:?\d{2})$/i;
+
+function parseHHmm(s: string) {
+  const m = HHMM_RE.exec(s.trim());
+  if (!m) return null;
+  const h = Number(m[1]);
+  const mi = Number(m[2]);
+  if (h > 23 || mi > 59) return null;
+  return { h, mi };
+}
+
+// ISO（带/不带偏移）=> 时刻；不带偏移时按 timeZone 的墙上时间理解
+function parseIso(s: string, timeZone: string): Date | null {
+  const t = s.trim();
+  if (ISO_OFFSET_RE.test(t)) {
+    const d = new Date(t.replace(' ', 'T'));
+    return Number.isFinite(d.getTime()) ? d : null;
+  }
+  const m = ISO_LOCAL_RE.exec(t);
+  if (!m) return null;
+  const [y, mo, d, h, mi] = m.slice(1, 6).map(Number);
+  if (mo < 1 || mo > 12 || d < 1 || d > 31 || h > 23 || mi > 59) return null;
+  return zonedToInstant(y, mo, d, h, mi, timeZone);
+}
+
+export function resolveTimeWindow(input: {
+  startTime: string;
+  endTime: string;
+  timezone?: string;
+  now?: Date;
+  // 彩蛋等“事后查看”的场景不要求窗口在未来
+  allowPast?: boolean;
+}): TimeWindowResult {
+  const timeZone = input.timezone?.trim() || DEFAULT_TIMEZONE;
+  if (!isValidTimeZone(timeZone)) return { ok: false, message: `不支持的时区：${timeZone}` };
+  const now = input.now ?? new Date();
+
+  let start: Date | null;
+  let end: Date | null;
+  const sh = parseHHmm(input.startTime);
+  const eh = parseHHmm(input.endTime);
+  if (sh && eh) {
+    // 旧格式 HH:mm：按“今天”理解；结束早于开始视为跨到次日；整段已过去则顺延到明天
+    const today = wallClock(now, timeZone);
+    start = zonedToInstant(today.year, today.month, today.day, sh.h, sh.mi, timeZone);
+    end = zonedToInstant(today.year, today.month, today.day, eh.h, eh.mi, timeZone);
+    if (end.getTime() <= start.getTime()) end = new Date(end.getTime() + 24 * 60 * 60000);
+    if (!input.allowPast && end.getTime() <= now.getTime()) {
+      start = new Date(start.getTime() + 24 * 60 * 60000);
+      end = new Date(end.getTime() + 24 * 60 * 60000);
+    }
+  } else {
+    start = sh ? null : parseIso(input.startTime, timeZone);
+    end = eh ? null : parseIso(input.endTime, timeZone);
+    if (!start || !end) {
+      return { ok: false, message: '时间格式不正确：请使用 HH:mm 或 ISO 日期时间（如 2026-10-19T17:30）' };
+    }
+  }
+
+  const spanMin = Math.round((end.getTime() - start.getTime()) / 60000);
+  if (spanMin <= 0) return { ok: false, message: '结束时间必须晚于开始时间' };
+  if (spanMin > MAX_WINDOW_MIN) return { ok: false, message: `时间段最长 ${MAX_WINDOW_MIN / 60} 小时` };
+
+  const nowMs = now.getTime();
+  if (!input.allowPast) {
+    if (end.getTime() <= nowMs) return { ok: false, message: '这个时间段已经过去了，请选择未来的时间' };
+    if (start.getTime() - nowMs > MAX_LEAD_DAYS * 24 * 60 * 60000) {
+      return { ok: false, message: `最多提前 ${MAX_LEAD_DAYS} 天规划` };
+    }
+  }
+
+  const departAt =
+    !input.allowPast && start.getTime() < nowMs - PAST_GRACE_MIN * 60000 ? new Date(Math.floor(nowMs / 60000) * 60000) : start;
+  const availableMin = Math.round((end.getTime() - departAt.getTime()) / 60000);
+
+  return {
+    ok: true,
+    window: {
+      timezone: timeZone,
+      start,
+      end,
+      departAt,
+      availableMin,
+      startLocal: localParts(start, timeZone),
+      endLocal: localParts(end, timeZone),
+      departLocal: localParts(departAt, timeZone),
+    },
+  };
+}
@@ -0,0 +1,38 @@
+import type { MapProvider, MapProviderName } from './mapProvider';
+
+declare const process: { env: Record<string, string | undefined> };
+
+// 批量“多起点 → 一个终点”的路网距离/用时（地图服务实现，如高德 /v3/distance）。
+// 只有步行和驾车两种底座：骑行/公交由调用方拿路网距离自己换算。
+export type MatrixBasis = 'walk' | 'drive';
+export type MatrixCell = { distanceM: number; durationSec: number } | null;
+export type TravelMatrix = (params: { basis: MatrixBasis; origins: string[]; destination: string }) => Promise<MatrixCell[]>;
+
+function haversineMeters(a: string, b: string) {
+  const [lng1, lat1] = a.split(',').map(Number);
+  const [lng2, lat2] = b.split(',').map(Number);
+  const toRad = (d: number) => (d * Math.PI) / 180;
+  const x =
+    Math.sin(toRad(lat2 - lat1) / 2) ** 2 + Math.cos(toRad(lat1)) * Math.cos(toRad(lat2)) * Math.sin(toRad(lng2 - lng1) / 2) ** 2;
+  return 2 * 6371000 * Math.asin(Math.min(1, Math.sqrt(x)));
+}
+
+// 离线替身：直线距离 × 绕路系数，不发请求（本地调试 / 地图服务没有距离矩阵 / 配额用完时用）
+function estimateTravelMatrix(): TravelMatrix {
+  const DETOUR = 1.35;
+  const speed: Record<MatrixBasis, number> = { walk: 80, drive: 500 }; // m/min
+  return async ({ basis, origins, destination }) =>
+    origins.map((o) => {
+      const distanceM = Math.round(haversineMeters(o, destination) * DETOUR);
+      return { distanceM, durationSec: Math.round((distanceM / speed[basis]) * 60) };
+    });
+}
+
+export function travelMatrixSource(maps: MapProvider): MapProviderName | 'estimate' {
+  return String(process.env.TRAVEL_MATRIX || '').trim() === 'estimate' || !maps.travelMatrix ? 'estimate' : maps.name;
+}
+
+// TRAVEL_MATRIX=estimate 时用离线替身，默认用地图服务的距离矩阵
+export function createTravelMatrix(maps: MapProvider): TravelMatrix {
+  return travelMatrixSource(maps) === 'estimate' || !maps.travelMatrix ? estimateTravelMatrix() : maps.travelMatrix;
+}
@@ -0,0 +1,32 @@
+import { effortSettings, type EffortProfile } from './effort';
+import type { MatrixBasis, MatrixCell } from './travelMatrix';
+
+export type Mode = 'walk' | 'bike' | 'drive' | 'transit';
+
+// 公交的固定开销：步行到站 + 候车（宜昌市区线路大多 8-15 分钟一班）
+export const TRANSIT_OVERHEAD_MIN = 10;
+
+// effort 只影响步行速度（少走路/推婴儿车走得慢）
+export function metersPerMin(mode: Mode, effort: EffortProfile = 'normal') {
+  if (mode === 'walk') return 85 * effortSettings(effort).walkPace;
+  if (mode === 'bike') return 250;
+  // 公交在车上的平均速度（含停站、绕行），候车另算
+  if (mode === 'transit') return 280;
+  return 550;
+}
+
+export function estTravelMin(mode: Mode, meters: number, effort: EffortProfile = 'normal') {
+  return Math.max(1, Math.round(meters / metersPerMin(mode, effort)) + (mode === 'transit' ? TRANSIT_OVERHEAD_MIN : 0));
+}
+
+// 距离矩阵只有步行/驾车两种底座：骑行、公交用驾车路网距离按各自速度换算（过江要绕桥，路网距离比直线准得多）
+export function matrixBasis(mode: Mode): MatrixBasis {
+  return mode === 'walk' ? 'walk' : 'drive';
+}
+
+export function matrixMin(mode: Mode, cell: MatrixCell, effort: EffortProfile = 'normal'): number | null {
+  if (!cell) return null;
+  if (mode === 'walk') return Math.max(1, Math.round(cell.durationSec / 60 / effortSettings(effort).walkPace));
+  if (mode === 'drive') return Math.max(1, Math.round(cell.durationSec / 60));
+  return estTravelMin(mode, cell.distanceM);
+}
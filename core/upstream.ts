@@ -0,0 +1,211 @@
+import axios, { AxiosError, type AxiosResponse, type InternalAxiosRequestConfig } from 'axios';
+import { createHash } from 'node:crypto';
+import { existsSync, mkdirSync, readdirSync, readFileSync, writeFileSync } from 'node:fs';
+import { join } from 'node:path';
+import { Readable } from 'node:stream';
+
+declare const process: { env: Record<string, string | undefined>; cwd(): string };
+
+// 上游请求（高德 WebService、大模型）都走这里的 axios 实例，UPSTREAM_MODE 决定怎么发：
+// - live（默认）：照常请求
+// - record：照常请求，同时把请求和响应写进 UPSTREAM_DIR 下当前的录像带（Key 之类的参数抹掉）
+// - replay：不联网，从 UPSTREAM_DIR 下所有录像带里找同样的请求返回；找不到就报 replay_miss
+// 回放时“现在”冻结在录制时刻（见 upstreamNow），时间段校验、天气预报、公交班次才和录制时一致。
+
+export type UpstreamMode = 'live' | 'record' | 'replay';
+
+type RecordedRequest = { method: string; url: string; params?: Record<string, unknown>; body?: unknown };
+type RecordedResponse = { status: number; data: unknown; base64?: boolean };
+type Interaction = { request: RecordedRequest; response: RecordedResponse };
+
+export type Cassette = {
+  name: string;
+  recordedAt: string; // ISO，回放时的“现在”
+  meta?: Record<string, unknown>; // 录制方自己要的上下文（如当时的大模型配置）
+  interactions: Interaction[];
+};
+
+const SECRET_PARAMS = new Set(['key', 'api_key', 'apikey', 'access_token', 'token']);
+const SCRUBBED = '***';
+
+let current: Cassette | null = null;
+let replayPool: Map<string, Cassette> | null = null;
+let misses = 0;
+
+export function upstreamMode(): UpstreamMode {
+  const v = String(process.env.UPSTREAM_MODE || '').trim();
+  return v === 'record' || v === 'replay' ? v : 'live';
+}
+
+function upstreamDir() {
+  return String(process.env.UPSTREAM_DIR || '').trim() || join(process.cwd(), 'recordings');
+}
+
+function scrub(params: Record<string, unknown> | undefined) {
+  if (!params) return undefined;
+  const out: Record<string, unknown> = {};
+  for (const k of Object.keys(params).sort()) {
+    if (params[k] === undefined) continue;
+    out[k] = SECRET_PARAMS.has(k.toLowerCase()) ? SCRUBBED : params[k];
+  }
+  return out;
+}
+
+// 请求头（含 Authorization）不录；请求体到这里已经是 JSON 字符串
+function describe(config: InternalAxiosRequestConfig): RecordedRequest {
+  let body: unknown = config.data;
+  if (typeof body === 'string') {
+    try {
+      body = JSON.parse(body);
+    } catch {
+      // 不是 JSON 就按原文
+    }
+  }
+  if (body && typeof body === 'object' && !Array.isArray(body)) body = scrub(body as Record<string, unknown>);
+  return {
+    method: String(config.method || 'get').toUpperCase(),
+    url: String(config.url || ''),
+    ...(config.params ? { params: scrub(config.params) } : {}),
+    ...(body === undefined ? {} : { body }),
+  };
+}
+
+function requestKey(r: RecordedRequest) {
+  return createHash('sha1').update(JSON.stringify([r.method, r.url, r.params ?? null, r.body ?? null])).digest('hex');
+}
+
+// 适配器拿到的是还没解析的原始响应：JSON 文本存成对象方便看 diff，二进制（静态图）存 base64
+function recordResponse(status: number, data: unknown): RecordedResponse {
+  if (data instanceof ArrayBuffer || ArrayBuffer.isView(data)) {
+    const bytes = data instanceof ArrayBuffer ? new Uint8Array(data) : new Uint8Array(data.buffer, data.byteOffset, data.byteLength);
+    return { status, data: Buffer.from(bytes).toString('base64'), base64: true };
+  }
+  if (typeof data === 'string') {
+    try {
+      return { status, data: JSON.parse(data) };
+    } catch {
+      return { status, data };
+    }
+  }
+  return { status, data };
+}
+
+// 流式响应（大模型 stream: true）录制时整段读完存成文本，再换一个同样内容的流交回去
+async function readText(stream: AsyncIterable<Uint8Array | string>) {
+  const chunks: Buffer[] = [];
+  for await (const chunk of stream) chunks.push(typeof chunk === 'string' ? Buffer.from(chunk) : Buffer.from(chunk));
+  return Buffer.concat(chunks).toString('utf8');
+}
+
+function cassettePath(name: string) {
+  return join(upstreamDir(), `${name}.json`);
+}
+
+function save(request: RecordedRequest, response: RecordedResponse) {
+  if (!current) switchCassette(String(process.env.UPSTREAM_CASSETTE || '').trim() || 'session');
+  const cassette = current!;
+  // 同一个请求录到多次（429 后重试成功）只留最后一次
+  const key = requestKey(request);
+  cassette.interactions = cassette.interactions.filter((x) => requestKey(x.request) !== key);
+  cassette.interactions.push({ request, response });
+  writeFileSync(cassettePath(cassette.name), `${JSON.stringify(cassette, null, 2)}\n`);
+}
+
+function loadPool() {
+  if (replayPool) return replayPool;
+  replayPool = new Map();
+  const dir = upstreamDir();
+  if (!existsSync(dir)) return replayPool;
+  for (const f of readdirSync(dir).filter((x) => x.endsWith('.json')).sort()) {
+    const c = JSON.parse(readFileSync(join(dir, f), 'utf8')) as Cassette;
+    if (Array.isArray(c?.interactions)) replayPool.set(c.name, c);
+  }
+  return replayPool;
+}
+
+// 先找当前录像带，再找其它的（模块里有缓存，同一个请求可能只在先跑的场景里录到过）
+function findRecorded(request: RecordedRequest): RecordedResponse | null {
+  const key = requestKey(request);
+  const cassettes = [...(current ? [current] : []), ...loadPool().values()];
+  for (const c of cassettes) {
+    const hit = c.interactions.find((x) => requestKey(x.request) === key);
+    if (hit) return hit.response;
+  }
+  return null;
+}
+
+function replayResponse(config: InternalAxiosRequestConfig, rec: RecordedResponse): AxiosResponse {
+  const text = typeof rec.data === 'string' ? rec.data : JSON.stringify(rec.data);
+  const data = config.responseType === 'stream' ? Readable.from([text]) : rec.base64 ? Buffer.from(String(rec.data), 'base64') : rec.data;
+  const response: AxiosResponse = { data, status: rec.status, statusText: String(rec.status), headers: {}, config, request: {} };
+  if (!config.validateStatus || config.validateStatus(rec.status)) return response;
+  const code = rec.status >= 500 ? AxiosError.ERR_BAD_RESPONSE : AxiosError.ERR_BAD_REQUEST;
+  throw new AxiosError(`Request failed with status code ${rec.status}`, code, config, null, response);
+}
+
+// 切换当前录像带（场景脚本每个场景一盘）。录制时清空重录；回放时返回录好的那盘，没有就是 null
+export function switchCassette(name: string, meta?: Record<string, unknown>): Cassette | null {
+  if (upstreamMode() === 'replay') {
+    current = loadPool().get(name) ?? null;
+    return current;
+  }
+  current = { name, recordedAt: new Date().toISOString(), ...(meta ? { meta } : {}), interactions: [] };
+  if (upstreamMode() === 'record') {
+    mkdirSync(upstreamDir(), { recursive: true });
+    writeFileSync(cassettePath(name), `${JSON.stringify(current, null, 2)}\n`);
+  }
+  return current;
+}
+
+export function upstreamNow(): Date {
+  return upstreamMode() === 'replay' && current ? new Date(current.recordedAt) : new Date();
+}
+
+// 回放时没找到录像的请求数：调用方多半会吞掉错误走兜底，检查脚本靠它发现录像过期
+export function replayMisses() {
+  return misses;
+}
+
+// 日志用：上游接口报错时打印对方返回的内容，其它错误原样打印
+export function upstreamErrorDetail(err: unknown): unknown {
+  return (axios.isAxiosError(err) && err.response?.data) || err;
+}
+
+export const upstream = axios.create();
+
+upstream.defaults.adapter = async (config) => {
+  const mode = upstreamMode();
+  // 每次现取默认适配器：测试里替换过 axios.defaults.adapter 也能生效
+  const live = axios.getAdapter(axios.defaults.adapter);
+  if (mode === 'live') return live(config);
+
+  const request = describe(config);
+  if (mode === 'replay') {
+    const rec = findRecorded(request);
+    if (!rec) {
+      misses += 1;
+      throw new AxiosError(`replay_miss: ${request.method} ${request.url}`, 'ERR_REPLAY_MISS', config);
+    }
+    return replayResponse(config, rec);
+  }
+
+  const streamed = config.responseType === 'stream';
+  try {
+    const resp = await live(config);
+    if (streamed) {
+      const text = await readText(resp.data);
+      save(request, { status: resp.status, data: text });
+      resp.data = Readable.from([text]);
+    } else {
+      save(request, recordResponse(resp.status, resp.data));
+    }
+    return resp;
+  } catch (e) {
+    // 4xx/5xx（比如 429）也录下来，回放时照样报错；网络错误没有响应，不录
+    if (e instanceof AxiosError && e.response) {
+      if (streamed) e.response.data = await readText(e.response.data);
+      save(request, recordResponse(e.response.status, e.response.data));
+    }
+    throw e;
+  }
+};
@@ -0,0 +1,75 @@
+import type { MapProvider } from './mapProvider';
+import type { LocalParts } from './timeWindow';
+import { WEATHER_FIXTURES } from './weatherFixtures';
+
+declare const process: { env: Record<string, string | undefined> };
+
+// 只声明用到的字段；高德缺值时会给 [] 而不是字符串
+export type AmapWeatherResponse = {
+  status?: string;
+  lives?: Array<Record<string, unknown>>;
+  forecasts?: Array<{ city?: unknown; casts?: Array<Record<string, unknown>> } & Record<string, unknown>>;
+};
+
+// 天气只用来“偏置”排序：取不到就当没有，不影响主流程
+export type Weather = {
+  source: 'amap' | 'fixture';
+  kind: 'live' | 'forecast';
+  city: string;
+  text: string; // 小雨 / 晴 / 多云 …
+  tempC: number | null;
+  rainy: boolean;
+  hot: boolean;
+};
+
+export const HOT_TEMP_C = 35;
+const RAIN_RE = /雨|雪|雷|冰雹|霰/;
+
+function toNumber(v: unknown) {
+  const n = Number(typeof v === 'string' ? v : NaN);
+  return Number.isFinite(n) ? n : null;
+}
+
+export function normalizeWeather(data: AmapWeatherResponse, source: Weather['source'], at: LocalParts, forecast: boolean): Weather | null {
+  if (forecast) {
+    const f = data?.forecasts?.[0];
+    const casts = Array.isArray(f?.casts) ? f.casts : [];
+    const cast = casts.find((c) => c?.date === at.date) ?? (source === 'fixture' ? casts[0] : undefined);
+    if (!cast) return null;
+    const day = at.minuteOfDay >= 6 * 60 && at.minuteOfDay < 18 * 60;
+    const text = String((day ? cast.dayweather : cast.nightweather) || '');
+    const tempC = toNumber(day ? cast.daytemp : cast.nighttemp);
+    return { source, kind: 'forecast', city: String(f?.city || ''), text, tempC, rainy: RAIN_RE.test(text), hot: (tempC ?? 0) >= HOT_TEMP_C };
+  }
+  const live = data?.lives?.[0];
+  if (!live) return null;
+  const text = String(live.weather || '');
+  const tempC = toNumber(live.temperature);
+  return { source, kind: 'live', city: String(live.city || ''), text, tempC, rainy: RAIN_RE.test(text), hot: (tempC ?? 0) >= HOT_TEMP_C };
+}
+
+// 当天用实况，未来日期用预报（高德只给 4 天，超出就没有）；WEATHER_FIXTURE 可以强制指定天气
+export async function fetchWeather(params: { maps: MapProvider; adcode: string; at: LocalParts; forecast: boolean }): Promise<Weather | null> {
+  const fixtureName = String(process.env.WEATHER_FIXTURE || '').trim();
+  if (fixtureName) {
+    const data = WEATHER_FIXTURES[fixtureName];
+    return data ? normalizeWeather(data, 'fixture', params.at, params.forecast) : null;
+  }
+  try {
+    return await params.maps.weather({ adcode: params.adcode, at: params.at, forecast: params.forecast });
+  } catch {
+    return null;
+  }
+}
+
+export function describeWeather(w: Weather) {
+  return `${w.text}${w.tempC === null ? '' : ` ${w.tempC}℃`}${w.kind === 'forecast' ? '（预报）' : ''}`;
+}
+
+// 室内偏置强度：0=不偏，1=强烈建议室内
+export function weatherIndoorBias(w: Weather | null): { bias: number; note?: string } {
+  if (!w) return { bias: 0 };
+  if (w.rainy) return { bias: 0.8, note: `${describeWeather(w)}，优先推荐商场/博物馆/影院等室内去处` };
+  if (w.hot) return { bias: 0.6, note: `${describeWeather(w)}，高温，优先推荐室内去处` };
+  return { bias: 0 };
+}
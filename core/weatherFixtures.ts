@@ -0,0 +1,46 @@
+import type { AmapWeatherResponse } from './weather';
+
+// AMap /v3/weather/weatherInfo responses captured in the shape the API returns them.
+// Selected with WEATHER_FIXTURE=rain|heat|clear so the weather bias can be exercised
+// without a key or on a sunny day. The forecast cast dates are ignored when matching.
+
+const YICHANG = { province: '湖北', city: '宜昌市', adcode: '420500' };
+
+function fixture(live: { weather: string; temperature: string }, cast: { dayweather: string; nightweather: string; daytemp: string; nighttemp: string }) {
+  return {
+    status: '1',
+    info: 'OK',
+    lives: [
+      {
+        ...YICHANG,
+        ...live,
+        winddirection: '东',
+        windpower: '≤3',
+        humidity: '70',
+        reporttime: '2026-10-19 15:00:00',
+      },
+    ],
+    forecasts: [
+      {
+        ...YICHANG,
+        reporttime: '2026-10-19 15:00:00',
+        casts: [{ date: '', week: '', daywind: '东', nightwind: '东', daypower: '≤3', nightpower: '≤3', ...cast }],
+      },
+    ],
+  };
+}
+
+export const WEATHER_FIXTURES: Record<string, AmapWeatherResponse> = {
+  rain: fixture(
+    { weather: '中雨', temperature: '17' },
+    { dayweather: '中雨', nightweather: '小雨', daytemp: '19', nighttemp: '15' }
+  ),
+  heat: fixture(
+    { weather: '晴', temperature: '37' },
+    { dayweather: '晴', nightweather: '晴', daytemp: '38', nighttemp: '29' }
+  ),
+  clear: fixture(
+    { weather: '多云', temperature: '22' },
+    { dayweather: '多云', nightweather: '晴', daytemp: '24', nighttemp: '16' }
+  ),
+};
@@ -0,0 +1,29 @@
+// 意图目录一致性检查：搜索词能不能识别回自己的大类、默认搜索词有没有意图、亲和度矩阵是否越界等。
+//
+//   npm run check:intents
+//
+// 有问题时逐条打印并以非 0 退出，改 core/intents.ts 后跑一下。
+import { checkIntentCatalog, defaultBrowseKeywords, inferIntent, INTENTS, topicKeywords, TOPICS, type IntentPrimary } from '../core/intents';
+
+// 改目录时容易悄悄漂掉的说法：识别成什么意图、强弱，必须带出哪些搜索词
+const PHRASES: Array<{ text: string; primary: IntentPrimary; strong: boolean; keywords?: string[] }> = [
+  // 下雨天常说的话：只是想待在室内，不是想逛商场，博物馆、影院、图书馆都得能搜到
+  { text: '下雨了，想找个室内的地方', primary: 'other', strong: false, keywords: ['商场', '博物馆', '电影院', '图书馆'] },
+  { text: '周末去看个展', primary: 'culture', strong: true, keywords: ['博物馆', '展馆'] },
+];
+
+const problems = checkIntentCatalog();
+for (const p of PHRASES) {
+  const got = inferIntent(p.text);
+  if (got.primary !== p.primary || got.strong !== p.strong) {
+    problems.push(`“${p.text}”被识别成 ${got.primary}（${got.strong ? '强' : '弱'}），应为 ${p.primary}（${p.strong ? '强' : '弱'}）`);
+  }
+  const missing = (p.keywords ?? []).filter((k) => !topicKeywords(p.text).includes(k));
+  if (missing.length) problems.push(`“${p.text}”没带出搜索词：${missing.join('、')}`);
+}
+if (problems.length) {
+  console.error(`意图目录有 ${problems.length} 处不一致：`);
+  for (const p of problems) console.error(`  - ${p}`);
+  process.exit(1);
+}
+console.log(`意图目录一致：${INTENTS.length} 个大类，${TOPICS.length} 个话题，默认搜索词 ${defaultBrowseKeywords().join('、')}`);
@@ -0,0 +1,189 @@
+// Vercel / Express 一致性检查：同一批请求分别打给 api/ 下的函数和本地 Express，对比状态码、关键响应头和返回内容。
+//
+//   npm run check:parity
+//
+// 没配 AMAP_WEB_SERVICE_KEY 时用离线地图服务（MAP_PROVIDER=fixture），不联网也能全部跑完；
+// 配了就打真实的高德。大模型输出不固定，这里换成固定回复的 stub（LLM_PROVIDER=stub）。
+import type { AddressInfo } from 'node:net';
+
+if (!process.env.AMAP_WEB_SERVICE_KEY) process.env.MAP_PROVIDER = 'fixture';
+process.env.LLM_PROVIDER = 'stub';
+process.env.TRAVEL_MATRIX = 'estimate';
+process.env.WEATHER_FIXTURE = process.env.WEATHER_FIXTURE || 'clear';
+
+type Case = { name: string; method: 'GET' | 'POST'; path: string; query?: Record<string, string>; body?: unknown };
+type Captured = { status: number; headers: Record<string, string>; body: unknown };
+
+const COMPARED_HEADERS = ['content-type', 'cache-control'];
+
+function tomorrowAt(hhmm: string) {
+  const d = new Date(Date.now() + 24 * 3600 * 1000 + 8 * 3600 * 1000);
+  return `${d.toISOString().slice(0, 10)}T${hhmm}:00+08:00`;
+}
+
+const CASES: Case[] = [
+  { name: 'health', method: 'GET', path: '/api/health' },
+  { name: 'recommend 方法不对', method: 'GET', path: '/api/recommend' },
+  { name: 'recommend 参数错误', method: 'POST', path: '/api/recommend', body: { origin: 'x' } },
+  {
+    name: 'recommend 时间段已过',
+    method: 'POST',
+    path: '/api/recommend',
+    body: { origin: { lng: 111.29, lat: 30.7 }, mode: 'walk', startTime: '2020-01-01T10:00', endTime: '2020-01-01T12:00' },
+  },
+  {
+    name: 'egg 夜里不触发',
+    method: 'POST',
+    path: '/api/egg',
+    body: { startTime: tomorrowAt('21:00'), endTime: tomorrowAt('23:00'), poi: { name: '滨江公园', location: '111.28,30.70' } },
+  },
+  {
+    name: 'egg 白天故事',
+    method: 'POST',
+    path: '/api/egg',
+    body: {
+      startTime: tomorrowAt('10:00'),
+      endTime: tomorrowAt('12:00'),
+      poi: { name: '滨江公园', category: '风景名胜;公园广场;公园', location: '111.28,30.70' },
+      playMin: 45,
+    },
+  },
+  {
+    name: 'egg-verify 到达',
+    method: 'POST',
+    path: '/api/egg-verify',
+    body: { user: { lng: 111.2801, lat: 30.7001 }, destLocation: '111.28,30.70' },
+  },
+  { name: 'egg-verify 参数错误', method: 'POST', path: '/api/egg-verify', body: { user: { lng: 999, lat: 0 } } },
+  { name: 'isochrone 估算', method: 'GET', path: '/api/isochrone', query: { origin: '111.29,30.70', mode: 'walk', minutes: '20' } },
+  { name: 'isochrone 参数错误', method: 'GET', path: '/api/isochrone', query: { origin: 'x', minutes: '1' } },
+  {
+    name: 'recommend 单点（固定种子）',
+    method: 'POST',
+    path: '/api/recommend',
+    body: { origin: { lng: 111.29, lat: 30.7 }, mode: 'walk', mood: '想喝咖啡', startTime: tomorrowAt('14:00'), endTime: tomorrowAt('17:00'), seed: 42 },
+  },
+  {
+    name: 'recommend-stream 分阶段',
+    method: 'POST',
+    path: '/api/recommend-stream',
+    body: { origin: { lng: 111.29, lat: 30.7 }, mode: 'walk', mood: '想喝咖啡', startTime: tomorrowAt('14:00'), endTime: tomorrowAt('17:00'), seed: 42 },
+  },
+  { name: 'recommend-stream 参数错误', method: 'POST', path: '/api/recommend-stream', body: { origin: 'x' } },
+  { name: 'staticmap', method: 'GET', path: '/api/staticmap', query: { origin: '111.29,30.70', dest: '111.28,30.70' } },
+];
+
+// NDJSON：逐行解析，对比整串事件
+function ndjson(text: string) {
+  return text
+    .split('\n')
+    .filter(Boolean)
+    .map((line) => JSON.parse(line));
+}
+
+function pickHeaders(h: Record<string, unknown>) {
+  const out: Record<string, string> = {};
+  for (const k of COMPARED_HEADERS) {
+    const v = h[k];
+    // Express 会给 JSON 补 charset，只比较类型本身
+    if (v !== undefined) out[k] = String(v).split(';')[0].trim();
+  }
+  return out;
+}
+
+async function viaVercel(c: Case): Promise<Captured> {
+  const route = c.path.replace(/^\/api\//, '');
+  const handler = (await import(`../api/${route}.ts`)).default;
+  const headers: Record<string, unknown> = {};
+  let captured: Captured | null = null;
+  let written = '';
+  const res = {
+    statusCode: 200,
+    headersSent: false,
+    writableEnded: false,
+    on() {
+      return this;
+    },
+    setHeader(k: string, v: unknown) {
+      headers[k.toLowerCase()] = v;
+    },
+    status(code: number) {
+      this.statusCode = code;
+      return this;
+    },
+    json(body: unknown) {
+      headers['content-type'] ??= 'application/json';
+      captured = { status: this.statusCode, headers: pickHeaders(headers), body: JSON.parse(JSON.stringify(body ?? null)) };
+      return this;
+    },
+    send(buf: Uint8Array) {
+      captured = { status: this.statusCode, headers: pickHeaders(headers), body: `${buf.length} bytes` };
+      return this;
+    },
+    write(chunk: string) {
+      this.headersSent = true;
+      written += chunk;
+      return true;
+    },
+    end() {
+      captured = { status: this.statusCode, headers: pickHeaders(headers), body: ndjson(written) };
+      return this;
+    },
+  };
+  await handler({ method: c.method, query: c.query || {}, body: c.body }, res);
+  if (!captured) throw new Error('Vercel 函数没有返回响应');
+  return captured;
+}
+
+async function viaExpress(base: string, c: Case): Promise<Captured> {
+  const url = `${base}${c.path}${c.query ? `?${new URLSearchParams(c.query)}` : ''}`;
+  const resp = await fetch(url, {
+    method: c.method,
+    headers: c.body === undefined ? undefined : { 'Content-Type': 'application/json' },
+    body: c.body === undefined ? undefined : JSON.stringify(c.body),
+  });
+  const headers = pickHeaders(Object.fromEntries(resp.headers.entries()));
+  const type = headers['content-type'];
+  const body =
+    type === 'application/json'
+      ? await resp.json()
+      : type === 'application/x-ndjson'
+        ? ndjson(await resp.text())
+        : `${(await resp.arrayBuffer()).byteLength} bytes`;
+  return { status: resp.status, headers, body };
+}
+
+function firstDiff(a: unknown, b: unknown, path = ''): string | null {
+  if (typeof a !== typeof b || Array.isArray(a) !== Array.isArray(b)) return `${path || '(根)'}：${JSON.stringify(a)} ≠ ${JSON.stringify(b)}`;
+  if (a && b && typeof a === 'object') {
+    const [x, y] = [a as Record<string, unknown>, b as Record<string, unknown>];
+    for (const k of new Set([...Object.keys(x), ...Object.keys(y)])) {
+      const d = firstDiff(x[k], y[k], path ? `${path}.${k}` : k);
+      if (d) return d;
+    }
+    return null;
+  }
+  return a === b ? null : `${path || '(根)'}：${JSON.stringify(a)} ≠ ${JSON.stringify(b)}`;
+}
+
+const { createApp } = await import('../server/src/app');
+const server = createApp().listen(0);
+await new Promise((r) => server.once('listening', r));
+const base = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+
+let failed = 0;
+try {
+  for (const c of CASES) {
+    const [v, e] = [await viaVercel(c), await viaExpress(base, c)];
+    const diff = firstDiff({ status: v.status, headers: v.headers, body: v.body }, { status: e.status, headers: e.headers, body: e.body });
+    if (diff) failed += 1;
+    console.log(`  ${diff ? '不一致' : '一致'}  ${c.name}（${v.status}）${diff ? `\n        ${diff}` : ''}`);
+  }
+} finally {
+  server.close();
+}
+if (failed) {
+  console.error(`\n${failed} 个请求两边回答不一样`);
+  process.exit(1);
+}
+console.log('\nVercel 函数和 Express 的回答一致');
@@ -0,0 +1,46 @@
+// 营业时间和夜间安全规则检查：几条容易写错的边界，核对判定结果。
+//
+//   npm run check:rules
+//
+// 有问题时逐条打印并以非 0 退出，改 core/openingHours.ts、core/nightSafety.ts 后跑一下。
+import { judgeNightSafety, nightSafetyConfig, type NightPhase } from '../core/nightSafety';
+import { checkOpenDuring, parseOpeningHours, type OpenCheck } from '../core/openingHours';
+
+// weekday：0=周日；at：到达时刻 HH:mm
+const HOURS_CASES: Array<{ title: string; raw: string; weekday: number; at: string; stayMin: number; status: OpenCheck['status'] }> = [
+  { title: '24 小时营业，深夜到也能待满', raw: '24小时营业', weekday: 5, at: '23:30', stayMin: 90, status: 'open' },
+  { title: '营业到次日 02:00，01:30 到只能待半小时', raw: '18:00-次日02:00', weekday: 6, at: '01:30', stayMin: 60, status: 'partial' },
+  { title: '22:00 关门，21:30 到只能待半小时', raw: '08:00-22:00', weekday: 3, at: '21:30', stayMin: 60, status: 'partial' },
+  { title: '周一闭馆', raw: '周二至周日 09:00-17:00，周一闭馆', weekday: 1, at: '10:00', stayMin: 60, status: 'closed' },
+];
+
+// fired：应触发的夜间规则 id（按顺序）
+const NIGHT_CASES: Array<{ title: string; name: string; category: string; phase: NightPhase; fired: string[] }> = [
+  { title: '市区平地公园不算山林景点', name: '中山公园', category: '风景名胜;公园广场;公园', phase: 'dusk', fired: ['park'] },
+  { title: '山林景点天黑后剔除', name: '磨基山公园', category: '风景名胜;公园广场;公园', phase: 'dusk', fired: ['remote_scenic', 'park'] },
+  { title: '峡谷景点深夜剔除', name: '三游洞', category: '风景名胜;风景名胜;国家级景点', phase: 'late', fired: ['remote_scenic'] },
+];
+
+function minuteOfDay(at: string) {
+  const [h, m] = at.split(':').map(Number);
+  return h * 60 + m;
+}
+
+const problems: string[] = [];
+for (const c of HOURS_CASES) {
+  const hours = parseOpeningHours(c.raw);
+  const got = hours ? checkOpenDuring(hours, { weekday: c.weekday, minuteOfDay: minuteOfDay(c.at) }, c.stayMin) : { status: 'unknown' };
+  if (got.status !== c.status) problems.push(`${c.title}：“${c.raw}” ${c.at} 到、待 ${c.stayMin} 分钟判成 ${got.status}，应为 ${c.status}`);
+}
+const strict = { ...nightSafetyConfig(), level: 'strict' as const };
+for (const c of NIGHT_CASES) {
+  const got = judgeNightSafety({ name: c.name, category: c.category }, c.phase, strict).fired.map((f) => f.id);
+  if (got.join(',') !== c.fired.join(',')) problems.push(`${c.title}：${c.name}（${c.phase}）触发 [${got.join(', ')}]，应为 [${c.fired.join(', ')}]`);
+}
+
+if (problems.length) {
+  console.error(`营业时间/夜间规则有 ${problems.length} 处不对：`);
+  for (const p of problems) console.error(`  - ${p}`);
+  process.exit(1);
+}
+console.log(`营业时间/夜间规则正常：营业时间 ${HOURS_CASES.length} 条，夜间 ${NIGHT_CASES.length} 条`);
@@ -0,0 +1,267 @@
+// 推荐场景回归：几组真实会问的问题跑一遍推荐逻辑，检查结果守住这些不变量——
+//   - 时间闭环：去 + 玩 + 回（串联行程是路上 + 各站停留）不超过可用时长
+//   - 停留不够要说明：实际停留低于最短停留时，relaxNotes 里得有解释
+//   - 意图过滤：强意图且附近有同类时，进入排序的都不是冲突类（除非放宽说明里讲了原因）
+//   - 各场景自己的期望：识别出的意图、推荐的类别、应该出现的放宽说明
+//
+//   npm run check:scenarios                  # 回放 scripts/scenarios/ 下录好的上游响应（不联网、不要 Key）
+//   npm run check:scenarios -- --record      # 打真实高德/大模型重新录制（需要 AMAP_WEB_SERVICE_KEY）
+//   npm run check:scenarios -- --record --fixture-upstream   # 没有 Key 时：对着离线样例数据冒充的高德录（见 fixture-upstream.ts）
+//   npm run check:scenarios -- --offline     # 不用录像：离线地图数据 + stub 大模型
+//   npm run check:scenarios -- --require-live   # 回放时，不是对着真实高德 + 大模型录的录像也算失败
+//   npm run check:scenarios -- coffee spa    # 只跑 id 里带这些词的场景
+//
+// 录像里的 Key 已经抹掉；回放时“现在”冻结在录制时刻，场景里的“明天 15:00”也按录制时刻算。
+// 录像带是一个场景一个文件，高德数据更新后重录即可，diff 里能直接看到变了哪些地点。
+// 回放时缺录像算失败（新加场景要先录）；录像的 meta.upstream 标明是对着真实高德还是样例数据录的，
+// 样例数据录的、或录制时没配大模型（意图解析只走了规则）的录像回放时会警告，加 --require-live 则算失败。
+import axios from 'axios';
+import { fileURLToPath } from 'node:url';
+import { fixtureUpstream } from './fixture-upstream';
+
+const args = process.argv.slice(2);
+const mode = args.includes('--record') ? 'record' : args.includes('--offline') ? 'offline' : 'replay';
+const fixtureUpstreamMode = mode === 'record' && args.includes('--fixture-upstream');
+const requireLive = args.includes('--require-live');
+const only = args.filter((a) => !a.startsWith('--'));
+
+// 这些开关会改变发出去的请求或排序，录制和回放必须一样，统一用默认值
+for (const k of ['TRAVEL_MATRIX', 'WEATHER_FIXTURE', 'RANKING_STRATEGY', 'MAP_PROVIDER', 'MATRIX_TOP_N', 'ROUTE_MAX_ATTEMPTS']) {
+  delete process.env[k];
+}
+for (const k of ['NIGHT_SAFETY', 'NIGHT_DUSK', 'NIGHT_LATE', 'NIGHT_DAWN']) delete process.env[k];
+// 偏好解析默认只等 2.5 秒，超时走规则；放宽后解析结果不取决于网络快慢
+process.env.GLM_TIMEOUT_INTENT_MS = '20000';
+process.env.UPSTREAM_DIR = fileURLToPath(new URL('./scenarios/', import.meta.url));
+if (mode === 'offline') {
+  process.env.MAP_PROVIDER = 'fixture';
+  process.env.LLM_PROVIDER = 'stub';
+} else {
+  process.env.UPSTREAM_MODE = mode;
+}
+if (fixtureUpstreamMode) {
+  // 样例上游只有高德；大模型不配，录规则兜底
+  axios.defaults.adapter = fixtureUpstream;
+  process.env.AMAP_WEB_SERVICE_KEY = 'fixture';
+  for (const k of ['LLM_PROVIDER', 'ZHIPU_API_KEY', 'LLM_BASE_URL', 'LLM_MODEL', 'LLM_API_KEY']) delete process.env[k];
+}
+if (mode === 'record' && !process.env.AMAP_WEB_SERVICE_KEY) {
+  console.error('录制需要真实的 AMAP_WEB_SERVICE_KEY（大模型 Key 可选，没配就录规则兜底；没有 Key 可加 --fixture-upstream）');
+  process.exit(1);
+}
+// 回放不联网，Key 只要“有”就行
+if (mode === 'replay') process.env.AMAP_WEB_SERVICE_KEY = 'replay';
+
+const { handleRecommend } = await import('../core/recommend');
+const { replayMisses, switchCassette, upstreamNow } = await import('../core/upstream');
+const { createLlmClient } = await import('../core/llm');
+const { resolveRankingStrategy } = await import('../core/ranking');
+type IntentPrimary = import('../core/intents').IntentPrimary;
+type RankingStrategyName = import('../core/ranking').RankingStrategyName;
+type RecordedCandidateSet = import('../core/ranking').RecordedCandidateSet;
+
+if (mode === 'record' && !fixtureUpstreamMode && !createLlmClient()) {
+  console.warn('没配大模型（ZHIPU_API_KEY 或 LLM_PROVIDER=openai），录出来的意图解析只走规则，回放时会被当成非真实录像');
+}
+
+// 只列检查要用到的字段（请求带了 debug: true）
+type RecommendJson = {
+  ok?: boolean;
+  empty?: boolean;
+  message?: string;
+  relaxNotes?: string[];
+  input: { availableMin: number; plan: 'single' | 'itinerary' };
+  intent: { primaryIntent: IntentPrimary };
+  result: { name: string; category: string; goMin: number; playMin: number; backMin: number };
+  itinerary?: { travelMin: number; stops: Array<{ stayMin: number }> };
+  debug: { strategy: RankingStrategyName; minStayMin: number; ranked: Array<{ name: string }>; candidateSet: RecordedCandidateSet };
+};
+
+type Expect = {
+  intent?: IntentPrimary;
+  strong?: boolean;
+  category?: RegExp; // 推荐地点的名称或类别
+  relax?: RegExp[]; // 必须出现的放宽说明
+  plan?: 'single' | 'itinerary';
+  allowEmpty?: boolean; // 允许“没有合适的地点”
+};
+
+type Scenario = {
+  id: string;
+  title: string;
+  at: string; // 明天几点出发（东八区）
+  durationMin: number;
+  body: Record<string, unknown>;
+  expect: Expect;
+};
+
+const CBD = { lng: 111.301, lat: 30.703, name: '宜昌CBD' };
+
+const SCENARIOS: Scenario[] = [
+  {
+    id: 'cbd-coffee-walk-1h',
+    title: '咖啡 + 步行 + 1 小时，从宜昌CBD出发',
+    at: '15:00',
+    durationMin: 60,
+    body: { origin: CBD, mode: 'walk', mood: '想找家咖啡馆坐坐' },
+    expect: { intent: 'food', strong: true, category: /咖啡/ },
+  },
+  {
+    id: 'spa-45min',
+    title: '温泉，只有 45 分钟',
+    at: '15:00',
+    durationMin: 45,
+    body: { origin: CBD, mode: 'drive', mood: '想泡温泉' },
+    expect: { intent: 'spa', strong: true, category: /汤泉|温泉|洗浴/, allowEmpty: true },
+  },
+  {
+    id: 'movie-transit-evening',
+    title: '晚上坐公交去看电影，3 小时',
+    at: '19:00',
+    durationMin: 180,
+    body: { origin: CBD, mode: 'transit', mood: '看场电影' },
+    expect: { intent: 'movie', strong: true, category: /电影|影城|影院/ },
+  },
+  {
+    id: 'hotpot-bike-2h',
+    title: '骑车去吃火锅，2 小时',
+    at: '18:00',
+    durationMin: 120,
+    body: { origin: CBD, mode: 'bike', mood: '想吃火锅' },
+    expect: { intent: 'food', strong: true, category: /火锅/ },
+  },
+  {
+    id: 'riverside-late-night',
+    title: '深夜想去江边走走',
+    at: '23:00',
+    durationMin: 60,
+    body: { origin: CBD, mode: 'walk', mood: '想去江边走走' },
+    expect: { intent: 'park', allowEmpty: true },
+  },
+  {
+    id: 'itinerary-too-short',
+    title: '没想好去哪，50 分钟想串几个地方（不够，改单点）',
+    at: '15:00',
+    durationMin: 50,
+    body: { origin: CBD, mode: 'walk', plan: 'itinerary' },
+    expect: { plan: 'single', relax: [/改为单点/] },
+  },
+  {
+    id: 'itinerary-afternoon',
+    title: '没想好去哪，一下午步行串几个地方',
+    at: '14:00',
+    durationMin: 240,
+    body: { origin: CBD, mode: 'walk', plan: 'itinerary' },
+    expect: { plan: 'itinerary' },
+  },
+];
+
+// 录制时记下非敏感的大模型配置，回放时照着恢复（Key 换成占位）
+function llmSnapshot() {
+  const keys = ['LLM_PROVIDER', 'LLM_BASE_URL', 'LLM_MODEL', 'ZHIPU_MODEL'] as const;
+  return { ...Object.fromEntries(keys.map((k) => [k, process.env[k] ?? null])), configured: Boolean(createLlmClient()) };
+}
+
+function restoreLlm(snapshot: Record<string, unknown> | undefined) {
+  for (const k of ['LLM_PROVIDER', 'LLM_BASE_URL', 'LLM_MODEL', 'ZHIPU_MODEL', 'ZHIPU_API_KEY', 'LLM_API_KEY']) delete process.env[k];
+  if (!snapshot?.configured) return;
+  for (const [k, v] of Object.entries(snapshot)) if (typeof v === 'string') process.env[k] = v;
+  process.env.ZHIPU_API_KEY = 'replay';
+}
+
+function localIso(d: Date) {
+  return `${new Date(d.getTime() + 8 * 3600_000).toISOString().slice(0, 16)}:00+08:00`;
+}
+
+function timesFor(s: Scenario) {
+  const tomorrow = new Date(upstreamNow().getTime() + 8 * 3600_000 + 24 * 3600_000).toISOString().slice(0, 10);
+  const start = new Date(`${tomorrow}T${s.at}:00+08:00`);
+  return { startTime: localIso(start), endTime: localIso(new Date(start.getTime() + s.durationMin * 60000)) };
+}
+
+function check(s: Scenario, status: number, json: RecommendJson): string[] {
+  if (status !== 200 || !json?.ok) return [`请求失败：${status} ${JSON.stringify(json)}`];
+  const problems: string[] = [];
+  const notes: string[] = json.relaxNotes ?? [];
+  const hasNote = (re: RegExp) => notes.some((n) => re.test(n));
+  for (const re of s.expect.relax ?? []) if (!hasNote(re)) problems.push(`缺少放宽说明 ${re}，实际：${notes.join(' / ') || '（无）'}`);
+
+  if (json.empty) {
+    if (!s.expect.allowEmpty) problems.push(`没有给出方案：${json.message}`);
+    return problems;
+  }
+
+  const r = json.result;
+  const available = json.input.availableMin;
+  if (json.input.plan !== (s.expect.plan ?? 'single')) problems.push(`行程类型 ${json.input.plan}，期望 ${s.expect.plan ?? 'single'}`);
+  if (json.itinerary) {
+    const stays = json.itinerary.stops.reduce((a, x) => a + x.stayMin, 0);
+    if (json.itinerary.travelMin + stays > available) problems.push(`时间闭环超时：路上 ${json.itinerary.travelMin} + 停留 ${stays} > ${available}`);
+  } else {
+    if (r.goMin + r.playMin + r.backMin > available) problems.push(`时间闭环超时：${r.goMin} + ${r.playMin} + ${r.backMin} > ${available}`);
+    if (r.playMin < json.debug.minStayMin && !hasNote(/低于期望|营业时间限制/)) {
+      problems.push(`只停留 ${r.playMin} 分（最短 ${json.debug.minStayMin} 分），却没有说明`);
+    }
+  }
+  if (r.goMin < 0 || r.backMin < 0 || r.playMin < 0) problems.push(`出现负的时间：${r.goMin}/${r.playMin}/${r.backMin}`);
+
+  if (s.expect.intent && json.intent.primaryIntent !== s.expect.intent) problems.push(`意图 ${json.intent.primaryIntent}，期望 ${s.expect.intent}`);
+  const set = json.debug.candidateSet;
+  if (s.expect.strong !== undefined && set.intent.strong !== s.expect.strong) problems.push(`意图强弱 ${set.intent.strong}，期望 ${s.expect.strong}`);
+  // 与 recommend 里的意图过滤同一口径：只有放宽最短停留、允许更近的兜底会把冲突类放回来
+  const affinity = new Map(set.candidates.map((c) => [c.name, c.affinity]));
+  const cutoff = resolveRankingStrategy(json.debug.strategy).strategy.affinityCutoff;
+  if (set.intent.strong && set.candidates.some((c) => c.affinity >= 0.7) && !hasNote(/放宽到|更近的地点/)) {
+    const conflicting = json.debug.ranked.filter((x) => (affinity.get(x.name) ?? 1) < cutoff).map((x) => x.name);
+    if (conflicting.length) problems.push(`强意图下仍有冲突类进入排序：${conflicting.join('、')}`);
+  }
+  if (s.expect.category && !s.expect.category.test(`${r.name} ${r.category}`)) problems.push(`推荐了 ${r.name}（${r.category}），期望 ${s.expect.category}`);
+  return problems;
+}
+
+// 录像不是对着真实高德 + 大模型录的：返回原因，是就返回 null
+function notLive(meta: Record<string, unknown> | undefined): string | null {
+  if (meta?.upstream !== 'amap') return `高德是${meta?.upstream === 'fixture' ? '样例数据' : '未知来源'}`;
+  if (!(meta.llm as { configured?: boolean } | undefined)?.configured) return '没配大模型';
+  return null;
+}
+
+let failed = 0;
+const synthetic: Array<{ id: string; reason: string }> = [];
+for (const s of SCENARIOS.filter((x) => !only.length || only.some((o) => x.id.includes(o)))) {
+  const meta = mode === 'record' ? { llm: llmSnapshot(), upstream: fixtureUpstreamMode ? 'fixture' : 'amap' } : undefined;
+  const cassette = switchCassette(s.id, meta);
+  if (mode === 'replay') {
+    if (!cassette) {
+      failed += 1;
+      console.log(`  失败  ${s.id}（没有录像：npm run check:scenarios -- --record ${s.id}）`);
+      continue;
+    }
+    restoreLlm(cassette.meta?.llm as Record<string, unknown> | undefined);
+    const reason = notLive(cassette.meta);
+    if (reason) synthetic.push({ id: s.id, reason });
+  }
+  const missesBefore = replayMisses();
+  const resp = await handleRecommend({ method: 'POST', query: {}, body: { ...s.body, ...timesFor(s), seed: 7, debug: true } });
+  const json = resp.json as RecommendJson;
+  const problems = check(s, resp.status, json);
+  const missed = replayMisses() - missesBefore;
+  if (missed) problems.push(`${missed} 个上游请求没有录像（代码改了请求参数？重录一下）`);
+  if (problems.length) failed += 1;
+  const r = json?.empty ? undefined : json?.result;
+  const summary = r ? `${r.name}：去${r.goMin} 玩${r.playMin} 回${r.backMin}` : (json?.message ?? resp.status);
+  console.log(`  ${problems.length ? '失败' : '通过'}  ${s.id}（${s.title}）→ ${summary}`);
+  for (const p of problems) console.log(`        ${p}`);
+}
+
+if (synthetic.length) {
+  const list = synthetic.map((x) => `${x.id}（${x.reason}）`).join('、');
+  console.warn(`\n${synthetic.length} 个录像不是对着真实高德 + 大模型录的：${list}`);
+  console.warn('有 AMAP_WEB_SERVICE_KEY 和大模型 Key 后重录：npm run check:scenarios -- --record');
+  if (requireLive) failed += synthetic.length;
+}
+if (failed) {
+  console.error(`\n${failed} 个场景没通过`);
+  process.exit(1);
+}
+console.log('\n场景全部通过');
@@ -0,0 +1,126 @@
+// 上游录制/回放（core/upstream.ts）自检：用假的 axios 适配器当“上游”，先录一遍再回放，检查——
+//   - Key 抹掉：查询参数、请求体里的 key/api_key 和 Authorization 头都不进录像文件，换了 Key 照样命中
+//   - 回放不联网：回放阶段假上游一次都没被调用，结果和录制时一样（JSON、流式文本、二进制、429）
+//   - replay_miss：没录过的请求报 ERR_REPLAY_MISS，replayMisses() 计数加一
+//
+//   npm run check:upstream
+import axios, { AxiosError, type AxiosAdapter, type AxiosResponse, type InternalAxiosRequestConfig } from 'axios';
+import { mkdtempSync, readFileSync, rmSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { Readable } from 'node:stream';
+
+const dir = mkdtempSync(join(tmpdir(), 'upstream-check-'));
+process.env.UPSTREAM_DIR = dir;
+process.env.UPSTREAM_MODE = 'record';
+
+const { replayMisses, switchCassette, upstream } = await import('../core/upstream');
+
+type Keys = { param: string; body: string; header: string };
+const SECRETS: Keys = { param: 'amap-secret-key', body: 'body-secret-key', header: 'header-secret-token' };
+const PNG = Uint8Array.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a, 0x00, 0xff, 0xfe, 0x80]);
+const SSE = [
+  'data: {"choices":[{"delta":{"content":"{\\"a\\":"}}]}\n\n',
+  'data: {"choices":[{"delta":{"content":"1}"}}]}\n\n',
+  'data: [DONE]\n\n',
+];
+
+let upstreamCalls = 0;
+
+function respond(config: InternalAxiosRequestConfig, status: number, data: unknown): AxiosResponse {
+  return { data, status, statusText: String(status), headers: {}, config, request: {} };
+}
+
+// 按路径作答，格式和真实的 http 适配器一样：JSON 是未解析的文本，流是 Readable，二进制是 Buffer
+const fakeUpstream: AxiosAdapter = async (config) => {
+  upstreamCalls += 1;
+  const path = new URL(String(config.url)).pathname;
+  if (path === '/json') return respond(config, 200, JSON.stringify({ status: '1', echo: config.params?.keywords ?? null }));
+  if (path === '/chat') return respond(config, 200, JSON.stringify({ choices: [{ message: { content: '{"ok":true}' } }] }));
+  if (path === '/stream') return respond(config, 200, Readable.from(SSE));
+  if (path === '/png') return respond(config, 200, Buffer.from(PNG));
+  const response = respond(config, 429, JSON.stringify({ error: { code: '1302', message: 'rate limited' } }));
+  throw new AxiosError('Request failed with status code 429', AxiosError.ERR_BAD_REQUEST, config, null, response);
+};
+
+async function readText(stream: AsyncIterable<Uint8Array | string>) {
+  const chunks: Buffer[] = [];
+  for await (const chunk of stream) chunks.push(Buffer.from(chunk));
+  return Buffer.concat(chunks).toString('utf8');
+}
+
+// 同一组请求录制、回放各跑一遍；回放换一套 Key，验证匹配时不看 Key
+async function run(keys: Keys) {
+  const key = keys.param;
+  const headers = { Authorization: `Bearer ${keys.header}` };
+  const json = await upstream.get('https://upstream.test/json', { params: { key, keywords: '咖啡' } });
+  const chat = await upstream.post(
+    'https://upstream.test/chat',
+    { model: 'm', api_key: keys.body, messages: [{ role: 'user', content: 'hi' }] },
+    { headers }
+  );
+  const stream = await upstream.post(
+    'https://upstream.test/stream',
+    { model: 'm', stream: true, api_key: keys.body },
+    { headers, responseType: 'stream' }
+  );
+  const png = await upstream.get('https://upstream.test/png', { params: { key }, responseType: 'arraybuffer' });
+  const limited = await upstream.get('https://upstream.test/limited', { params: { key } }).then(
+    () => 'no error',
+    (e: unknown) => (axios.isAxiosError(e) ? `${e.response?.status} ${JSON.stringify(e.response?.data)}` : String(e))
+  );
+  return {
+    json: json.data,
+    chat: chat.data,
+    stream: await readText(stream.data),
+    png: Buffer.from(png.data).toString('hex'),
+    limited,
+  };
+}
+
+const problems: string[] = [];
+axios.defaults.adapter = fakeUpstream;
+
+try {
+  switchCassette('roundtrip');
+  const recorded = await run(SECRETS);
+  const file = readFileSync(join(dir, 'roundtrip.json'), 'utf8');
+  for (const s of Object.values(SECRETS)) if (file.includes(s)) problems.push(`录像文件里出现了 Key：${s}`);
+  if (!file.includes('"***"')) problems.push('录像文件里没有抹掉的 Key 占位 ***');
+  const cassette = JSON.parse(file) as { interactions: Array<{ response: { base64?: boolean; data: unknown } }> };
+  if (cassette.interactions.length !== 5) problems.push(`录到 ${cassette.interactions.length} 条交互，应为 5 条`);
+  if (!cassette.interactions.some((x) => x.response.base64)) problems.push('二进制响应没有存成 base64');
+  if (recorded.stream !== SSE.join('')) problems.push(`录制时交回的流内容变了：${JSON.stringify(recorded.stream)}`);
+  if (recorded.png !== Buffer.from(PNG).toString('hex')) problems.push('录制时交回的二进制内容变了');
+
+  process.env.UPSTREAM_MODE = 'replay';
+  const callsBefore = upstreamCalls;
+  if (!switchCassette('roundtrip')) problems.push('回放时找不到刚录的录像带');
+  const replayed = await run({ param: 'other-key', body: 'other-body-key', header: 'other-token' }).catch((e: unknown) => {
+    problems.push(`回放出错：${e instanceof Error ? e.message : String(e)}`);
+    return null;
+  });
+  if (upstreamCalls !== callsBefore) problems.push(`回放时调用了上游 ${upstreamCalls - callsBefore} 次`);
+  for (const k of replayed ? (Object.keys(recorded) as Array<keyof typeof recorded>) : []) {
+    const a = JSON.stringify(recorded[k]);
+    const b = JSON.stringify(replayed![k]);
+    if (a !== b) problems.push(`${k} 回放结果不一致：录制 ${a}，回放 ${b}`);
+  }
+
+  const missesBefore = replayMisses();
+  const miss = await upstream.get('https://upstream.test/json', { params: { key: 'x', keywords: '没录过' } }).then(
+    () => null,
+    (e: unknown) => (axios.isAxiosError(e) ? e.code : String(e))
+  );
+  if (miss !== 'ERR_REPLAY_MISS') problems.push(`没录过的请求应报 ERR_REPLAY_MISS，实际：${miss}`);
+  if (replayMisses() !== missesBefore + 1) problems.push(`replayMisses() 应加一，实际 ${missesBefore} → ${replayMisses()}`);
+} finally {
+  rmSync(dir, { recursive: true, force: true });
+}
+
+if (problems.length) {
+  console.error(`上游录制/回放有 ${problems.length} 处问题：`);
+  for (const p of problems) console.error(`  - ${p}`);
+  process.exit(1);
+}
+console.log('上游录制/回放正常：Key 已抹掉，JSON/流式/二进制/429 原样回放，没录过的请求计入 replay_miss');
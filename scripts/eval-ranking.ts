@@ -0,0 +1,101 @@
+// 排序策略离线评测：把录下来的候选集按每个策略重新打分、筛选、排序，对比结果。
+//
+//   npm run eval:ranking                      # 跑 scripts/ranking-sets/ 下的全部样例
+//   npm run eval:ranking -- a.json dir/ ...   # 指定文件或目录
+//
+// 候选集怎么录：请求 /api/recommend 时带 debug: true，把响应存成 json 即可（脚本会取 debug.candidateSet），
+// 想算命中率就在文件里补一个 accept（人工认为推得对的地点名）。
+// 回放的筛选和 api/recommend.ts 保持一致：强意图的冲突类剔除、最短停留、太近、只取前 10；
+// 最终推荐是按权重加权抽签，所以指标都是“抽中概率”意义上的期望值。
+import { readdirSync, readFileSync, statSync } from 'node:fs';
+import { join } from 'node:path';
+import { RANKING_STRATEGIES, resolveRankingStrategy, scoreWithStrategy, type RecordedCandidateSet } from '../core/ranking';
+
+function loadSets(paths: string[]) {
+  const files = paths.flatMap((p) =>
+    statSync(p).isDirectory()
+      ? readdirSync(p)
+          .filter((f) => f.endsWith('.json'))
+          .sort()
+          .map((f) => join(p, f))
+      : [p]
+  );
+  return files.flatMap((file) => {
+    const raw = JSON.parse(readFileSync(file, 'utf8'));
+    const set: RecordedCandidateSet | undefined = raw?.debug?.candidateSet ?? (Array.isArray(raw?.candidates) && raw?.intent ? raw : undefined);
+    if (!set) {
+      console.warn(`跳过 ${file}：不是候选集，也没有 debug.candidateSet`);
+      return [];
+    }
+    return [{ file, set }];
+  });
+}
+
+function replay(set: RecordedCandidateSet, name: (typeof RANKING_STRATEGIES)[number]) {
+  const { strategy } = resolveRankingStrategy(name);
+  const idealOneWay = strategy.idealOneWay(set.availableMin);
+  const scored = set.candidates.map((c) => ({
+    ...c,
+    weight: scoreWithStrategy(strategy, c, { travelMin: c.travelMin, idealOneWay, intentStrong: set.intent.strong }).weight,
+  }));
+  const hasHighAffinity = scored.some((c) => c.affinity >= 0.7);
+  const intentFiltered =
+    set.intent.strong && hasHighAffinity ? scored.filter((c) => c.affinity >= strategy.affinityCutoff) : scored;
+  const longEnough = (c: (typeof scored)[number]) => set.availableMin - c.travelMin >= set.minStayMin;
+  let pool = intentFiltered.filter(longEnough);
+  if (pool.length === 0) pool = scored.filter(longEnough);
+  const notTooClose = pool.filter((c) => c.oneWayMin >= set.minOneWay);
+  pool = notTooClose.length ? notTooClose : scored.filter(longEnough);
+  return pool.sort((a, b) => b.weight - a.weight).slice(0, 10);
+}
+
+function pct(n: number) {
+  return `${Math.round(n * 100)}%`;
+}
+
+const args = process.argv.slice(2);
+const sets = loadSets(args.length ? args : [join(process.cwd(), 'scripts', 'ranking-sets')]);
+if (!sets.length) {
+  console.error('没有可评测的候选集');
+  process.exit(1);
+}
+
+const totals = new Map<string, { top1: number; pAccept: number; oneWay: number; conflict: number; labeled: number; n: number }>();
+for (const { file, set } of sets) {
+  console.log(`\n# ${file}\n  “${set.mood || '（无偏好）'}” · ${set.availableMin} 分 · 意图 ${set.intent.primary}${set.intent.strong ? '（强）' : '（弱）'}`);
+  const accept = new Set(set.accept ?? []);
+  for (const name of RANKING_STRATEGIES) {
+    const ranked = replay(set, name);
+    const sum = ranked.reduce((a, c) => a + Math.max(0, c.weight), 0) || 1;
+    const p = (pred: (c: (typeof ranked)[number]) => boolean) =>
+      ranked.filter(pred).reduce((a, c) => a + Math.max(0, c.weight), 0) / sum;
+    const expOneWay = ranked.reduce((a, c) => a + (Math.max(0, c.weight) / sum) * c.oneWayMin, 0);
+    const conflict = p((c) => c.affinity < 0);
+    const pAccept = accept.size ? p((c) => accept.has(c.name)) : NaN;
+    const top = ranked[0];
+    const t = totals.get(name) ?? { top1: 0, pAccept: 0, oneWay: 0, conflict: 0, labeled: 0, n: 0 };
+    t.n += 1;
+    t.oneWay += expOneWay;
+    t.conflict += conflict;
+    if (accept.size) {
+      t.labeled += 1;
+      t.pAccept += pAccept;
+      t.top1 += top && accept.has(top.name) ? 1 : 0;
+    }
+    totals.set(name, t);
+    console.log(
+      `  ${name.padEnd(14)} 第一 ${top ? `${top.name}（单程 ${top.oneWayMin} 分）` : '—'} · 抽中对口 ${
+        accept.size ? pct(pAccept) : '未标注'
+      } · 期望单程 ${expOneWay.toFixed(1)} 分 · 抽到冲突类 ${pct(conflict)}`
+    );
+  }
+}
+
+console.log(`\n# 汇总（${sets.length} 组候选集）`);
+for (const name of RANKING_STRATEGIES) {
+  const t = totals.get(name)!;
+  const labeled = t.labeled
+    ? `第一命中 ${pct(t.top1 / t.labeled)} · 抽中对口 ${pct(t.pAccept / t.labeled)}`
+    : '无标注';
+  console.log(`  ${name.padEnd(14)} ${labeled} · 期望单程 ${(t.oneWay / t.n).toFixed(1)} 分 · 抽到冲突类 ${pct(t.conflict / t.n)}`);
+}
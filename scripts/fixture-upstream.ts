@@ -0,0 +1,129 @@
+// 用离线样例数据（core/mapFixtures.ts）冒充高德 WebService 的 axios 适配器：按高德原始返回的格式作答，
+// 这样 core/amapProvider.ts 的请求拼装和解析、core/upstream.ts 的录制都照常走一遍。
+// 没有高德 Key 或连不上高德时，check:scenarios 用它录场景录像（-- --record --fixture-upstream）；
+// 录出来的地点和用时是样例数据，不代表真实高德，有 Key 时应该重录。
+import { AxiosError, type AxiosAdapter, type AxiosResponse, type InternalAxiosRequestConfig } from 'axios';
+import { FIXTURE_PLACE } from '../core/mapFixtures';
+import { fixtureMapProvider } from '../core/fixtureMapProvider';
+import type { MapPoi, MapRoute } from '../core/mapProvider';
+import { metersPerMin, type Mode } from '../core/travelMode';
+import { WEATHER_FIXTURES } from '../core/weatherFixtures';
+
+const maps = fixtureMapProvider();
+
+type Params = Record<string, string | number | boolean | undefined>;
+
+function respond(config: InternalAxiosRequestConfig, data: unknown, status = 200): AxiosResponse {
+  const headers = { 'content-type': 'application/json' };
+  return { data: JSON.stringify(data), status, statusText: String(status), headers, config, request: {} };
+}
+
+// 高德空字段给 []，数字也是字符串
+function text(v: string | number | undefined) {
+  return v === undefined ? [] : String(v);
+}
+
+function toAmapPoi(p: MapPoi) {
+  return {
+    id: p.id,
+    name: p.name,
+    type: p.category,
+    typecode: text(p.typecode),
+    address: p.address,
+    location: p.location,
+    distance: text(p.distanceMeter),
+    tel: text(p.tel),
+    photos: [],
+    biz_ext: { opentime2: text(p.openTime), rating: text(p.rating), cost: text(p.costPerPerson) },
+  };
+}
+
+function toAmapPath(r: MapRoute) {
+  return { duration: String(r.durationSec), steps: [{ polyline: r.polyline }] };
+}
+
+function toAmapTransit(r: MapRoute) {
+  // 样例公交：两头各一段步行，中间一条线路
+  const walking = { duration: String(Math.round(r.walkMaxSec)), steps: [] };
+  const stops = Number(/（(\d+)站）/.exec(r.summary || '')?.[1] || 2);
+  const line = { name: '样例公交(起点--终点)', polyline: r.polyline, via_num: String(stops - 1) };
+  return {
+    duration: String(r.durationSec),
+    segments: [
+      { walking, bus: { buslines: [line] } },
+      { walking, bus: { buslines: [] } },
+    ],
+  };
+}
+
+// 预报按录制当天往后排 4 天（和高德一样），实况用同一份
+function weather(forecast: boolean) {
+  const base = WEATHER_FIXTURES.clear;
+  if (!forecast) return { ...base, forecasts: [] };
+  const cast = base.forecasts?.[0]?.casts?.[0] ?? {};
+  const dateIn = (days: number) => new Date(Date.now() + 8 * 3600_000 + days * 24 * 3600_000).toISOString().slice(0, 10);
+  const casts = [0, 1, 2, 3].map((d) => ({ ...cast, date: dateIn(d) }));
+  return { ...base, lives: [], forecasts: [{ ...base.forecasts?.[0], casts }] };
+}
+
+async function answer(path: string, p: Params): Promise<unknown> {
+  const s = (k: string) => String(p[k] ?? '');
+  switch (path) {
+    case '/v3/place/around': {
+      const pois = await maps.searchAround({
+        location: s('location'),
+        keywords: s('keywords'),
+        radius: Number(p.radius),
+        pageSize: Number(p.page_size),
+        page: Number(p.page),
+        city: p.city === undefined ? undefined : s('city'),
+      });
+      return { status: '1', info: 'OK', count: String(pois.length), pois: pois.map(toAmapPoi) };
+    }
+    case '/v3/direction/walking':
+    case '/v3/direction/driving': {
+      const mode: Mode = path.endsWith('walking') ? 'walk' : 'drive';
+      const r = await maps.route({ mode, origin: s('origin'), destination: s('destination') });
+      return { status: '1', info: 'OK', route: { paths: [toAmapPath(r)] } };
+    }
+    case '/v3/direction/transit/integrated': {
+      const r = await maps.route({ mode: 'transit', origin: s('origin'), destination: s('destination') });
+      // 太近时高德不给公交方案
+      return { status: '1', info: 'OK', route: { transits: r.mode === 'transit' ? [toAmapTransit(r)] : [] } };
+    }
+    case '/v4/direction/bicycling': {
+      const r = await maps.route({ mode: 'bike', origin: s('origin'), destination: s('destination') });
+      return { errcode: 0, data: { paths: [{ duration: r.durationSec, polyline: r.polyline }] } };
+    }
+    case '/v3/distance': {
+      const mode: Mode = String(p.type) === '3' ? 'walk' : 'drive';
+      const results = await Promise.all(
+        s('origins')
+          .split('|')
+          .map(async (origin, i) => {
+            const r = await maps.route({ mode, origin, destination: s('destination') });
+            const distance = Math.round((r.durationSec / 60) * metersPerMin(mode));
+            return { origin_id: String(i + 1), dest_id: '1', distance: String(distance), duration: String(Math.round(r.durationSec)) };
+          })
+      );
+      return { status: '1', info: 'OK', results };
+    }
+    case '/v3/geocode/regeo':
+      return { status: '1', info: 'OK', regeocode: { addressComponent: { ...FIXTURE_PLACE, province: '湖北省' } } };
+    case '/v3/weather/weatherInfo':
+      return weather(s('extensions') === 'all');
+    default:
+      return null;
+  }
+}
+
+export const fixtureUpstream: AxiosAdapter = async (config) => {
+  const url = new URL(String(config.url));
+  const data = url.host === 'restapi.amap.com' ? await answer(url.pathname, (config.params ?? {}) as Params) : null;
+  // 其它地址（大模型等）样例里没有：和真实接口一样抛 404，调用方会走兜底
+  if (data === null) {
+    const response = respond(config, { error: 'not_in_fixture' }, 404);
+    throw new AxiosError('Request failed with status code 404', AxiosError.ERR_BAD_REQUEST, config, null, response);
+  }
+  return respond(config, data);
+};
@@ -0,0 +1,50 @@
+import cors from 'cors';
+import express, { type Request, type Response } from 'express';
+import type { CoreHandler, CoreResponse } from '../../core/http';
+import { handleHealth, ROUTES } from '../../core/routes';
+
+// Express 适配：和 api/_vercel.ts 做同样的转换，业务都在 core 里
+function toExpress(handler: CoreHandler) {
+  return async (req: Request, res: Response) => {
+    // 客户端断开（响应还没写完就关了）时通知 handler 停下，也不再往已关闭的连接上写
+    const closed = new AbortController();
+    res.on('close', () => {
+      if (!res.writableEnded) closed.abort();
+    });
+    let out: CoreResponse | undefined;
+    try {
+      out = await handler({ method: req.method, query: req.query, body: req.body, signal: closed.signal });
+      for (const [k, v] of Object.entries(out.headers || {})) res.setHeader(k, v);
+      if (out.binary) return res.status(out.status).send(Buffer.from(out.binary));
+      if (out.stream) {
+        res.status(out.status);
+        for await (const chunk of out.stream) {
+          if (closed.signal.aborted) break;
+          res.write(chunk);
+        }
+        return res.end();
+      }
+      return res.status(out.status).json(out.json);
+    } catch (err) {
+      if (closed.signal.aborted) return res.end();
+      console.error(err);
+      // 流写到一半出错：状态码和表头已定，补一段结束事件再收尾，别留半截响应
+      if (out?.stream) {
+        if (out.streamError) res.write(out.streamError(err));
+        return res.end();
+      }
+      if (res.headersSent) return res.end();
+      return res.status(500).json({ error: 'server_error', message: err instanceof Error ? err.message : 'unknown' });
+    }
+  };
+}
+
+export function createApp() {
+  const app = express();
+  app.use(cors());
+  app.use(express.json({ limit: '1mb' }));
+  // 方法校验在 handler 里做（405 和线上一致），这里不按方法分路由
+  for (const r of ROUTES) app.all(r.path, toExpress(r.handler));
+  app.get('/health', toExpress(handleHealth));
+  return app;
+}
@@ -1,6 +1,22 @@
 import { useEffect, useMemo, useRef, useState } from 'react';
 import './App.css';
-import { getEgg, recommend, verifyEgg, type EggResponse, type EggVerifyResponse, type RecommendResponse, type TravelMode } from './lib/api';
+import {
+  getEgg,
+  getIsochrone,
+  recommendStream,
+  verifyEgg,
+  type EggResponse,
+  type EffortProfile,
+  type EggVerifyResponse,
+  type Fairness,
+  type Itinerary,
+  type PlanKind,
+  type RecommendResponse,
+  type RecommendStage,
+  type RankingStrategyName,
+  type ScoreBreakdown,
+  type TravelMode,
+} from './lib/api';
 import { loadAMap } from './lib/amapLoader';
 import ReactMarkdown from 'react-markdown';
 import remarkGfm from 'remark-gfm';
@@ -28,22 +44,139 @@ function addMinutesHHmm(hhmm: string, deltaMin: number) {
   return `${nh}:${nm}`;
 }
 
-function minutesBetween(startHHmm: string, endHHmm: string): number {
-  const [sh, sm] = startHHmm.split(':').map(Number);
-  const [eh, em] = endHHmm.split(':').map(Number);
-  const s = sh * 60 + sm;
-  const e = eh * 60 + em;
-  return e >= s ? e - s : 24 * 60 - s + e;
+function todayYmd() {
+  const d = new Date();
+  return `${d.getFullYear()}-${String(d.getMonth() + 1).padStart(2, '0')}-${String(d.getDate()).padStart(2, '0')}`;
+}
+
+function addDaysYmd(ymd: string, days: number) {
+  const [y, m, d] = ymd.split('-').map(Number);
+  const dt = new Date(Date.UTC(y, m - 1, d + days));
+  return dt.toISOString().slice(0, 10);
+}
+
+// 日期 + 起止 HH:mm => 完整的本地日期时间（结束不晚于开始时视为次日），交给后端按时区解析
+function timeWindow(dateYmd: string, startHHmm: string, endHHmm: string) {
+  const crossesMidnight = endHHmm <= startHHmm;
+  const endDate = crossesMidnight ? addDaysYmd(dateYmd, 1) : dateYmd;
+  const start = `${dateYmd}T${startHHmm}`;
+  const end = `${endDate}T${endHHmm}`;
+  const minutes = Math.round((Date.parse(`${end}:00Z`) - Date.parse(`${start}:00Z`)) / 60000);
+  return { start, end, minutes, crossesMidnight };
+}
+
+function currentPosition() {
+  return new Promise<{ lng: number; lat: number }>((resolve, reject) => {
+    if (!navigator.geolocation) {
+      reject(new Error('当前浏览器不支持定位'));
+      return;
+    }
+    navigator.geolocation.getCurrentPosition(
+      (pos) => {
+        resolve({ lng: pos.coords.longitude, lat: pos.coords.latitude });
+      },
+      (err) => reject(new Error(err.message || '定位失败')),
+      { enableHighAccuracy: true, timeout: 8000 }
+    );
+  });
 }
 
 function modeName(m: TravelMode) {
   if (m === 'walk') return '步行';
   if (m === 'bike') return '骑行';
+  if (m === 'transit') return '公交';
   return '驾车';
 }
 
+// 串联行程每段路一种颜色，便于和时间轴对应（多人碰头时每个人一种颜色）
+const LEG_COLORS = ['#2563eb', '#16a34a', '#f59e0b', '#db2777'];
+// 后端 exclude 最多收 200 个；会话久了只留最近看过的
+const MAX_SHOWN = 200;
+
+// “为什么是它”面板：落选筛选的中文名
+const DROP_FILTER_LABELS: Record<string, string> = {
+  intent_miss: '没命中意图',
+  hours: '营业时间',
+  too_far: '太远',
+  isochrone: '可达范围外',
+  effort: '体力限制',
+  night: '夜间安全',
+  affinity: '类别冲突',
+  min_stay: '停留不够',
+  too_close: '太近',
+  rank: '排名靠后',
+};
+
+function scoreLine(s: ScoreBreakdown) {
+  const f = s.factors;
+  return (
+    `基础 ${s.base}（贴合 ${s.closeness}×${s.weights.closeness} + 新鲜 ${s.novelty}×${s.weights.novelty} + 命中 ${s.match}×${s.weights.match}）` +
+    ` × 亲和 ${f.affinity} × 营业 ${f.hours} × 天气 ${f.weather} × 口碑 ${f.rating} × 体力 ${f.comfort} × 夜间 ${f.night} = ${s.weight}`
+  );
+}
+
+function itineraryRows(it: Itinerary, startHHmm: string) {
+  const rows: Array<{
+    key: string;
+    kind: 'leg' | 'stop';
+    title: string;
+    min: number;
+    at: string;
+    mode?: TravelMode;
+    color?: string;
+  }> = [];
+  let t = 0;
+  it.legs.forEach((leg, i) => {
+    const isLast = i === it.legs.length - 1;
+    rows.push({
+      key: `leg${i}`,
+      kind: 'leg',
+      title: isLast ? (leg.toName === '终点' ? '前往终点' : '回到起点') : `前往 ${leg.toName}`,
+      min: leg.min,
+      at: addMinutesHHmm(startHHmm, t),
+      mode: leg.mode,
+      color: LEG_COLORS[i % LEG_COLORS.length],
+    });
+    t += leg.min;
+    const stop = it.stops[i];
+    if (stop) {
+      rows.push({ key: `stop${i}`, kind: 'stop', title: stop.name, min: stop.stayMin, at: addMinutesHHmm(startHHmm, t) });
+      t += stop.stayMin;
+    }
+  });
+  return rows;
+}
+
+// 流式推荐进行中已经收到的阶段；完整结果到了就清空，改显示 data
+type StreamProgress = {
+  intent?: Extract<RecommendStage, { stage: 'intent' }>['intent'];
+  candidates?: Extract<RecommendStage, { stage: 'candidates' }>['candidates'];
+  top1?: Extract<RecommendStage, { stage: 'top1' }>;
+  report: string;
+};
+
+function applyStage(p: StreamProgress, s: RecommendStage): StreamProgress {
+  if (s.stage === 'intent') return { ...p, intent: s.intent };
+  if (s.stage === 'candidates') return { ...p, candidates: s.candidates };
+  if (s.stage === 'top1') return { ...p, top1: s };
+  return { ...p, report: p.report + s.delta };
+}
+
+function progressLabel(p: StreamProgress | null) {
+  if (p?.top1) return '正在写报告…';
+  if (p?.candidates) return '正在精算路线…';
+  if (p?.intent) return '正在找地点…';
+  return '正在随机…';
+}
+
 export default function App() {
   const [mode, setMode] = useState<TravelMode>('walk');
+  const [backMode, setBackMode] = useState<TravelMode | 'same'>('same');
+  const [plan, setPlan] = useState<PlanKind>('single');
+  // auto：交给后端从一句话偏好推断
+  const [effort, setEffort] = useState<EffortProfile | 'auto'>('auto');
+  const [strategy, setStrategy] = useState<RankingStrategyName | 'auto'>('auto');
+  const [date, setDate] = useState(() => todayYmd());
   const [startTime, setStartTime] = useState(() => nowHHmm());
   const [endTime, setEndTime] = useState(() => addMinutesHHmm(nowHHmm(), 180));
   const [mood, setMood] = useState('');
@@ -51,20 +184,42 @@ export default function App() {
   const [presetKey, setPresetKey] = useState<keyof typeof PRESETS>('yichangCBD');
   const [cityScope, setCityScope] = useState<'yichang' | 'auto'>('yichang');
   const [origin, setOrigin] = useState<{ lng: number; lat: number } | null>(() => PRESETS.yichangCBD);
+  // 终点：回到起点（往返）或某个预设地点（单程，如“下班后逛一圈再回家”）
+  // 多人碰头：每人一个预设起点 + 自己的交通方式
+  const [groupOn, setGroupOn] = useState(false);
+  const [groupMembers, setGroupMembers] = useState<Array<{ key: keyof typeof PRESETS; mode: TravelMode }>>([
+    { key: 'xilin', mode: 'walk' },
+    { key: 'wujiagang', mode: 'transit' },
+    { key: 'dianjun', mode: 'drive' },
+  ]);
+  const [fairness, setFairness] = useState<Fairness>('minmax');
+  const [endKey, setEndKey] = useState<'origin' | keyof typeof PRESETS>('origin');
   const [minStayMode, setMinStayMode] = useState<'auto' | '15' | '30' | '45' | '60' | '90' | '120' | 'custom'>('auto');
   const [minStayCustom, setMinStayCustom] = useState('60');
+  const [seedInput, setSeedInput] = useState('');
+  const [debug, setDebug] = useState(false);
+  // 口碑/预算：只筛有高德评分、人均数据的地点
+  const [minRating, setMinRating] = useState<'any' | '3.5' | '4' | '4.5'>('any');
+  const [maxCost, setMaxCost] = useState('');
+  // 本次会话里已经展示过的地点（POI id / "lng,lat"），“再随机一次”时发给后端排除
+  const [shown, setShown] = useState<string[]>([]);
   const [loading, setLoading] = useState(false);
   const [errorMsg, setErrorMsg] = useState<string | null>(null);
   const [data, setData] = useState<RecommendResponse | null>(null);
+  const [progress, setProgress] = useState<StreamProgress | null>(null);
   const [eggLoading, setEggLoading] = useState(false);
   const [eggErr, setEggErr] = useState<string | null>(null);
   const [eggData, setEggData] = useState<EggResponse | null>(null);
   const [verifyLoading, setVerifyLoading] = useState(false);
   const [verifyResult, setVerifyResult] = useState<EggVerifyResponse | null>(null);
+  // 地图上叠加本次推荐用到的等时圈（可达范围）
+  const [showIso, setShowIso] = useState(false);
+
+  const win = timeWindow(date, startTime, endTime);
 
   const mapRef = useRef<any>(null);
-  const markerRef = useRef<any>(null);
-  const polylineRef = useRef<any>(null);
+  const overlaysRef = useRef<unknown[]>([]);
+  const isoRef = useRef<unknown>(null);
 
   const canDrawMap = useMemo(() => {
     return Boolean(import.meta.env.VITE_AMAP_JS_KEY);
@@ -84,27 +239,20 @@ export default function App() {
   }
 
   function clearOverlays() {
-    if (polylineRef.current && mapRef.current) mapRef.current.remove(polylineRef.current);
-    if (markerRef.current && mapRef.current) mapRef.current.remove(markerRef.current);
-    polylineRef.current = null;
-    markerRef.current = null;
+    if (mapRef.current && overlaysRef.current.length) mapRef.current.remove(overlaysRef.current);
+    overlaysRef.current = [];
+  }
+
+  function toPath(polyline: string) {
+    return polyline.split(';').map((p) => {
+      const [lng, lat] = p.split(',').map(Number);
+      return [lng, lat];
+    });
   }
 
   async function locate() {
     setErrorMsg(null);
-    return new Promise<{ lng: number; lat: number }>((resolve, reject) => {
-      if (!navigator.geolocation) {
-        reject(new Error('当前浏览器不支持定位'));
-        return;
-      }
-      navigator.geolocation.getCurrentPosition(
-        (pos) => {
-          resolve({ lng: pos.coords.longitude, lat: pos.coords.latitude });
-        },
-        (err) => reject(new Error(err.message || '定位失败')),
-        { enableHighAccuracy: true, timeout: 8000 }
-      );
-    });
+    return currentPosition();
   }
 
   async function onQuick(deltaMin: number) {
@@ -113,9 +261,10 @@ export default function App() {
     setEndTime(addMinutesHHmm(s, deltaMin));
   }
 
-  async function onRecommend() {
+  async function onRecommend(opts?: { reroll?: boolean }) {
     setErrorMsg(null);
     setLoading(true);
+    setProgress(null);
     try {
       let o = origin;
       if (originMode === 'geo') {
@@ -127,23 +276,51 @@ export default function App() {
         setOrigin(o);
       }
 
-      const resp = await recommend({
-        origin: o,
-        mode,
-        startTime,
-        endTime,
-        mood: mood.trim(),
-        city: cityScope === 'yichang' ? '宜昌' : '',
-        allowRelax: true,
-        minStayMin:
-          minStayMode === 'auto'
-            ? undefined
-            : Math.max(
-                0,
-                Number(minStayMode === 'custom' ? minStayCustom : minStayMode) || 0
-              ),
-      });
+      const end = endKey === 'origin' ? undefined : { lng: PRESETS[endKey].lng, lat: PRESETS[endKey].lat };
+      const resp = await recommendStream(
+        {
+          origin: o,
+          end,
+          mode,
+          goMode: mode,
+          backMode: backMode === 'same' ? mode : backMode,
+          startTime: win.start,
+          endTime: win.end,
+          mood: mood.trim(),
+          city: cityScope === 'yichang' ? '宜昌' : '',
+          allowRelax: true,
+          plan,
+          seed: seedInput.trim() ? Number(seedInput.trim()) : undefined,
+          exclude: opts?.reroll ? shown : undefined,
+          minRating: minRating === 'any' ? undefined : Number(minRating),
+          maxCostPerPerson: Number(maxCost) > 0 ? Number(maxCost) : undefined,
+          effort: effort === 'auto' ? undefined : effort,
+          strategy: strategy === 'auto' ? undefined : strategy,
+          group: groupOn
+            ? groupMembers.map((m) => ({
+                name: PRESETS[m.key].name.replace(/（.*）/, ''),
+                origin: { lng: PRESETS[m.key].lng, lat: PRESETS[m.key].lat },
+                mode: m.mode,
+              }))
+            : undefined,
+          fairness: groupOn ? fairness : undefined,
+          debug: debug || undefined,
+          minStayMin:
+            minStayMode === 'auto'
+              ? undefined
+              : Math.max(
+                  0,
+                  Number(minStayMode === 'custom' ? minStayCustom : minStayMode) || 0
+                ),
+        },
+        (stage) => setProgress((p) => applyStage(p ?? { report: '' }, stage))
+      );
+      setProgress(null);
       setData(resp);
+      if (resp.ok && !resp.empty) {
+        const keys = resp.itinerary ? resp.itinerary.stops.map((x) => x.location) : [resp.result.id];
+        setShown((prev) => [...prev.filter((k) => !keys.includes(k)), ...keys].slice(-MAX_SHOWN));
+      }
       setEggErr(null);
       setEggData(null);
       setVerifyResult(null);
@@ -156,30 +333,79 @@ export default function App() {
           const AMap = await ensureMap(o);
           clearOverlays();
 
-          markerRef.current = new AMap.Marker({ position: [dest.lng, dest.lat] });
-          mapRef.current.add(markerRef.current);
-
-          if (resp.result.polyline) {
-            const path = resp.result.polyline.split(';').map((p) => {
-              const [lng, lat] = p.split(',').map(Number);
-              return [lng, lat];
+          if (resp.group) {
+            overlaysRef.current.push(new AMap.Marker({ position: [dest.lng, dest.lat], label: { content: '碰头' } }));
+            resp.group.members.forEach((m, i) => {
+              const color = LEG_COLORS[i % LEG_COLORS.length];
+              overlaysRef.current.push(new AMap.Marker({ position: [m.origin.lng, m.origin.lat], label: { content: m.name } }));
+              if (m.polyline) {
+                overlaysRef.current.push(
+                  new AMap.Polyline({ path: toPath(m.polyline), strokeColor: color, strokeWeight: 6, strokeOpacity: 0.85 })
+                );
+              }
+              // 回程画虚线，和去程同色
+              if (m.backPolyline) {
+                overlaysRef.current.push(
+                  new AMap.Polyline({
+                    path: toPath(m.backPolyline),
+                    strokeColor: color,
+                    strokeWeight: 4,
+                    strokeOpacity: 0.6,
+                    strokeStyle: 'dashed',
+                  })
+                );
+              }
             });
-            polylineRef.current = new AMap.Polyline({
-              path,
-              strokeColor: '#2563eb',
-              strokeWeight: 6,
-              strokeOpacity: 0.85,
+            mapRef.current.add(overlaysRef.current);
+            mapRef.current.setFitView(overlaysRef.current);
+          } else if (resp.itinerary) {
+            resp.itinerary.stops.forEach((stop, i) => {
+              const [lng, lat] = stop.location.split(',').map(Number);
+              overlaysRef.current.push(new AMap.Marker({ position: [lng, lat], label: { content: String(i + 1) } }));
             });
-            mapRef.current.add(polylineRef.current);
-            mapRef.current.setFitView([markerRef.current, polylineRef.current]);
+            resp.itinerary.legs.forEach((leg, i) => {
+              if (!leg.polyline) return;
+              overlaysRef.current.push(
+                new AMap.Polyline({
+                  path: toPath(leg.polyline),
+                  strokeColor: LEG_COLORS[i % LEG_COLORS.length],
+                  strokeWeight: 6,
+                  strokeOpacity: 0.85,
+                })
+              );
+            });
+            mapRef.current.add(overlaysRef.current);
+            mapRef.current.setFitView(overlaysRef.current);
           } else {
-            mapRef.current.setCenter([dest.lng, dest.lat]);
+            const marker = new AMap.Marker({ position: [dest.lng, dest.lat] });
+            overlaysRef.current.push(marker);
+            mapRef.current.add(marker);
+            if (end) {
+              const endMarker = new AMap.Marker({ position: [end.lng, end.lat], label: { content: '终点' } });
+              overlaysRef.current.push(endMarker);
+              mapRef.current.add(endMarker);
+            }
+
+            if (resp.result.polyline) {
+              const polyline = new AMap.Polyline({
+                path: toPath(resp.result.polyline),
+                strokeColor: '#2563eb',
+                strokeWeight: 6,
+                strokeOpacity: 0.85,
+              });
+              overlaysRef.current.push(polyline);
+              mapRef.current.add(polyline);
+              mapRef.current.setFitView([marker, polyline]);
+            } else {
+              mapRef.current.setCenter([dest.lng, dest.lat]);
+            }
           }
         }
       }
     } catch (e: any) {
       setErrorMsg(e?.message || '发生错误');
     } finally {
+      setProgress(null);
       setLoading(false);
     }
   }
@@ -192,8 +418,8 @@ export default function App() {
     try {
       const resp = await getEgg({
         mode,
-        startTime,
-        endTime,
+        startTime: win.start,
+        endTime: win.end,
         mood: mood.trim(),
         city: cityScope === 'yichang' ? '宜昌' : '',
         poi: {
@@ -234,8 +460,15 @@ export default function App() {
   useEffect(() => {
     // Best-effort pre-locate when user chooses "geo".
     if (originMode !== 'geo') return;
-    locate().then(setOrigin).catch(() => {});
-    // eslint-disable-next-line react-hooks/exhaustive-deps
+    let cancelled = false;
+    currentPosition()
+      .then((p) => {
+        if (!cancelled) setOrigin(p);
+      })
+      .catch(() => {});
+    return () => {
+      cancelled = true;
+    };
   }, [originMode]);
 
   useEffect(() => {
@@ -244,9 +477,38 @@ export default function App() {
     ensureMap(origin).catch((e) => {
       setErrorMsg(e?.message || '地图加载失败');
     });
-    // eslint-disable-next-line react-hooks/exhaustive-deps
   }, [origin, canDrawMap]);
 
+  useEffect(() => {
+    if (mapRef.current && isoRef.current) mapRef.current.remove(isoRef.current);
+    isoRef.current = null;
+    if (!showIso || !canDrawMap || !data || !data.ok || data.empty || !data.isochrone) return;
+    const iso = data.isochrone;
+    let cancelled = false;
+    (async () => {
+      try {
+        const AMap = await ensureMap();
+        const resp = await getIsochrone({ origin: data.input.origin, mode: iso.mode, minutes: iso.budgetMin });
+        if (cancelled) return;
+        isoRef.current = new AMap.Polygon({
+          path: resp.polygon,
+          strokeColor: '#2563eb',
+          strokeWeight: 1,
+          strokeOpacity: 0.6,
+          fillColor: '#2563eb',
+          fillOpacity: 0.12,
+          bubble: true,
+        });
+        mapRef.current.add(isoRef.current);
+      } catch (e) {
+        if (!cancelled) setErrorMsg(e instanceof Error ? e.message : '可达范围加载失败');
+      }
+    })();
+    return () => {
+      cancelled = true;
+    };
+  }, [showIso, data, canDrawMap]);
+
   return (
     <div className="page">
       <header className="header">
@@ -283,7 +545,7 @@ export default function App() {
           <div className="row">
             <label className="label">交通方式</label>
             <div className="seg">
-              {(['walk', 'bike', 'drive'] as const).map((m) => (
+              {(['walk', 'bike', 'transit', 'drive'] as const).map((m) => (
                 <button
                   key={m}
                   className={m === mode ? 'segBtn active' : 'segBtn'}
@@ -294,16 +556,88 @@ export default function App() {
                 </button>
               ))}
             </div>
+            <div className="timeRow">
+              <span className="muted small">回程</span>
+              <select className="text" value={backMode} onChange={(e) => setBackMode(e.target.value as TravelMode | 'same')}>
+                <option value="same">同去程</option>
+                {(['walk', 'bike', 'transit', 'drive'] as const).map((m) => (
+                  <option key={m} value={m}>
+                    {modeName(m)}
+                    {m === 'drive' ? '（打车/自驾）' : ''}
+                  </option>
+                ))}
+              </select>
+            </div>
+          </div>
+
+          <div className="row">
+            <label className="label">玩法</label>
+            <div className="seg">
+              <button
+                className={plan === 'single' ? 'segBtn active' : 'segBtn'}
+                onClick={() => setPlan('single')}
+                type="button"
+              >
+                单点往返
+              </button>
+              <button
+                className={plan === 'itinerary' ? 'segBtn active' : 'segBtn'}
+                onClick={() => setPlan('itinerary')}
+                type="button"
+              >
+                串联 2-3 站
+              </button>
+            </div>
+          </div>
+
+          <div className="row">
+            <label className="label">体力</label>
+            <div className="seg">
+              {(
+                [
+                  ['auto', '自动'],
+                  ['normal', '正常'],
+                  ['easy', '少走路'],
+                  ['accessible', '轮椅/婴儿车'],
+                ] as const
+              ).map(([k, label]) => (
+                <button key={k} className={effort === k ? 'segBtn active' : 'segBtn'} onClick={() => setEffort(k)} type="button">
+                  {label}
+                </button>
+              ))}
+            </div>
+            {effort === 'auto' ? <span className="muted small">按一句话偏好推断，如“不想走路”“推婴儿车”</span> : null}
+          </div>
+
+          <div className="row">
+            <label className="label">排序偏好</label>
+            <div className="seg">
+              {(
+                [
+                  ['auto', '默认'],
+                  ['nearby-first', '就近优先'],
+                  ['explore-far', '走远一点'],
+                  ['intent-strict', '严格对口'],
+                ] as const
+              ).map(([k, label]) => (
+                <button key={k} className={strategy === k ? 'segBtn active' : 'segBtn'} onClick={() => setStrategy(k)} type="button">
+                  {label}
+                </button>
+              ))}
+            </div>
           </div>
 
           <div className="row">
             <label className="label">时间段</label>
             <div className="timeRow">
+              <input className="time" type="date" value={date} min={todayYmd()} onChange={(e) => setDate(e.target.value || todayYmd())} />
               <input className="time" type="time" value={startTime} onChange={(e) => setStartTime(e.target.value)} />
               <span className="to">→</span>
               <input className="time" type="time" value={endTime} onChange={(e) => setEndTime(e.target.value)} />
             </div>
-            <span className="muted small">可用时长：{minutesBetween(startTime, endTime)} 分钟</span>
+            <span className="muted small">
+              可用时长：{win.minutes} 分钟{win.crossesMidnight ? '（结束在次日）' : ''}
+            </span>
           </div>
 
           <div className="row">
@@ -331,6 +665,25 @@ export default function App() {
             </div>
           </div>
 
+          <div className="row">
+            <label className="label">口碑 / 人均（有数据的地点才筛）</label>
+            <div className="timeRow">
+              <select className="text" value={minRating} onChange={(e) => setMinRating(e.target.value as typeof minRating)}>
+                <option value="any">评分不限</option>
+                <option value="3.5">3.5 分以上</option>
+                <option value="4">4 分以上</option>
+                <option value="4.5">4.5 分以上</option>
+              </select>
+              <input
+                className="time"
+                inputMode="numeric"
+                placeholder="人均上限（元）"
+                value={maxCost}
+                onChange={(e) => setMaxCost(e.target.value.replace(/[^\d]/g, ''))}
+              />
+            </div>
+          </div>
+
           <div className="row">
             <label className="label">快捷</label>
             <div className="chips">
@@ -425,9 +778,130 @@ export default function App() {
             )}
           </div>
 
+          <div className="row">
+            <label className="label">多人碰头（可选）</label>
+            <div className="seg">
+              <button className={!groupOn ? 'segBtn active' : 'segBtn'} onClick={() => setGroupOn(false)} type="button">
+                就我一个
+              </button>
+              <button className={groupOn ? 'segBtn active' : 'segBtn'} onClick={() => setGroupOn(true)} type="button">
+                和朋友碰头
+              </button>
+            </div>
+            {groupOn ? (
+              <>
+                {groupMembers.map((m, i) => (
+                  <div className="timeRow" key={i}>
+                    <span className="itDot" style={{ background: LEG_COLORS[i % LEG_COLORS.length] }} />
+                    <select
+                      className="text"
+                      value={m.key}
+                      onChange={(e) =>
+                        setGroupMembers((prev) => prev.map((x, j) => (j === i ? { ...x, key: e.target.value as keyof typeof PRESETS } : x)))
+                      }
+                    >
+                      {Object.entries(PRESETS).map(([k, v]) => (
+                        <option key={k} value={k}>
+                          {v.name}
+                        </option>
+                      ))}
+                    </select>
+                    <select
+                      className="text"
+                      value={m.mode}
+                      onChange={(e) =>
+                        setGroupMembers((prev) => prev.map((x, j) => (j === i ? { ...x, mode: e.target.value as TravelMode } : x)))
+                      }
+                    >
+                      {(['walk', 'bike', 'transit', 'drive'] as const).map((x) => (
+                        <option key={x} value={x}>
+                          {modeName(x)}
+                        </option>
+                      ))}
+                    </select>
+                    {groupMembers.length > 2 ? (
+                      <button
+                        className="chip"
+                        type="button"
+                        onClick={() => setGroupMembers((prev) => prev.filter((_x, j) => j !== i))}
+                      >
+                        移除
+                      </button>
+                    ) : null}
+                  </div>
+                ))}
+                <div className="chips">
+                  {groupMembers.length < 6 ? (
+                    <button
+                      className="chip"
+                      type="button"
+                      onClick={() => setGroupMembers((prev) => [...prev, { key: 'yichangCBD', mode: 'walk' }])}
+                    >
+                      + 加一个人
+                    </button>
+                  ) : null}
+                  <button
+                    className={fairness === 'minmax' ? 'chip active' : 'chip'}
+                    type="button"
+                    onClick={() => setFairness('minmax')}
+                  >
+                    照顾最远的人
+                  </button>
+                  <button
+                    className={fairness === 'total' ? 'chip active' : 'chip'}
+                    type="button"
+                    onClick={() => setFairness('total')}
+                  >
+                    总路程最短
+                  </button>
+                </div>
+                <span className="muted small">碰头时会忽略上面的起点和终点，每人按同一时间段往返</span>
+              </>
+            ) : null}
+          </div>
+
+          <div className="row">
+            <label className="label">随机种子（可选，用于复现结果）</label>
+            <input
+              className="text"
+              inputMode="numeric"
+              placeholder="留空则每次随机"
+              value={seedInput}
+              onChange={(e) => setSeedInput(e.target.value.replace(/\D/g, ''))}
+            />
+          </div>
+
+          <div className="row">
+            <label className="label">打分明细（调试）</label>
+            <div className="seg">
+              <button className={!debug ? 'segBtn active' : 'segBtn'} onClick={() => setDebug(false)} type="button">
+                关
+              </button>
+              <button className={debug ? 'segBtn active' : 'segBtn'} onClick={() => setDebug(true)} type="button">
+                显示“为什么是它”
+              </button>
+            </div>
+          </div>
+
+          <div className="row">
+            <label className="label">终点</label>
+            <select
+              className="text"
+              value={endKey}
+              onChange={(e) => setEndKey(e.target.value as 'origin' | keyof typeof PRESETS)}
+            >
+              <option value="origin">回到起点（往返）</option>
+              {Object.entries(PRESETS).map(([k, v]) => (
+                <option key={k} value={k}>
+                  单程去：{v.name}
+                </option>
+              ))}
+            </select>
+          </div>
+
           <div className="actions">
-            <button className="btn primary" type="button" onClick={onRecommend} disabled={loading}>
-              {loading ? '正在随机…' : '随机一个方案'}
+            <button className="btn primary" type="button" onClick={() => onRecommend()} disabled={loading}>
+              {loading ? progressLabel(progress) : '随机一个方案'}
             </button>
           </div>
 
@@ -436,31 +910,187 @@ export default function App() {
 
         <section className="panel">
           <div className="panelTitle">结果</div>
-          {!data ? (
+          {progress && (progress.intent || progress.candidates || progress.top1) ? (
+            <div className="result">
+              <div className="cardTitle">
+                {progress.top1
+                  ? progress.top1.itinerary
+                    ? progress.top1.itinerary.stops.map((x) => x.name).join(' → ')
+                    : progress.top1.result.name
+                  : '正在挑选…'}
+              </div>
+              <div className="meta">
+                {progress.top1 ? (
+                  <span className="badge">
+                    {progress.top1.itinerary ? `${progress.top1.itinerary.stops.length} 站串联` : progress.top1.result.category}
+                  </span>
+                ) : null}
+                {progress.top1 ? <span className="muted">{progress.top1.result.address}</span> : null}
+                {progress.intent ? (
+                  <span className="muted small">
+                    意图 {progress.intent.primaryIntent}
+                    {progress.intent.keywords.length ? ` · ${progress.intent.keywords.join('、')}` : ''}
+                  </span>
+                ) : null}
+              </div>
+              {progress.top1 ? (
+                <div className="timeline">
+                  <div className="tlItem">
+                    <div className="tlK">去 · {modeName(progress.top1.result.goMode)}</div>
+                    <div className="tlV">{progress.top1.result.goMin} 分</div>
+                  </div>
+                  <div className="tlItem">
+                    <div className="tlK">玩</div>
+                    <div className="tlV">{progress.top1.result.playMin} 分</div>
+                  </div>
+                  <div className="tlItem">
+                    <div className="tlK">
+                      {endKey === 'origin' ? '回' : '到终点'} · {modeName(progress.top1.result.backMode)}
+                    </div>
+                    <div className="tlV">{progress.top1.result.backMin} 分</div>
+                  </div>
+                </div>
+              ) : null}
+
+              {progress.top1?.relaxNotes?.length ? (
+                <div className="block">
+                  <div className="blockTitle">放宽说明（为保证有结果）</div>
+                  <ul className="list">
+                    {progress.top1.relaxNotes.map((x) => (
+                      <li key={x}>{x}</li>
+                    ))}
+                  </ul>
+                </div>
+              ) : null}
+
+              {progress.candidates?.length ? (
+                <div className="block">
+                  <div className="blockTitle">Top3 候选（估算）</div>
+                  <ul className="list">
+                    {progress.candidates.map((c, idx) => (
+                      <li key={c.location}>
+                        <b>{idx + 1}. {c.name}</b>（{c.category}） · 预估单程 {c.oneWayMinEst ?? '-'} 分 · 预估可停留 {c.playMinEst ?? '-'} 分
+                      </li>
+                    ))}
+                  </ul>
+                </div>
+              ) : null}
+
+              {progress.top1 ? (
+                <div className="block">
+                  <div className="blockTitle">图文报告（生成中…）</div>
+                  {progress.report ? (
+                    <div className="md">
+                      <ReactMarkdown remarkPlugins={[remarkGfm]}>{progress.report}</ReactMarkdown>
+                    </div>
+                  ) : (
+                    <div className="muted small">路线已经算好，正在写报告…</div>
+                  )}
+                </div>
+              ) : null}
+            </div>
+          ) : !data ? (
             <div className="empty">点击“随机一个方案”，我就给你一个能在你选择的时间段内往返闭环的目的地。</div>
           ) : data.ok && data.empty ? (
-            <div className="empty">{data.message || '暂时没有找到合适地点'}</div>
+            <div className="empty">
+              {data.message || '暂时没有找到合适地点'}
+              {data.routing?.rejected.length ? (
+                <ul className="list">
+                  {data.routing.rejected.map((x) => (
+                    <li key={x.name}>
+                      {x.name}：{x.reason}
+                    </li>
+                  ))}
+                </ul>
+              ) : null}
+              {data.hoursRejected?.length ? (
+                <ul className="list">
+                  {data.hoursRejected.map((x) => (
+                    <li key={x.name}>
+                      {x.name}（{x.openTime}）：{x.reason}
+                    </li>
+                  ))}
+                </ul>
+              ) : null}
+            </div>
           ) : data.ok && !data.empty ? (
             <div className="result">
-              <div className="cardTitle">{data.result.name}</div>
+              <div className="cardTitle">
+                {data.itinerary ? data.itinerary.stops.map((x) => x.name).join(' → ') : data.result.name}
+              </div>
               <div className="meta">
-                <span className="badge">{data.result.category}</span>
+                <span className="badge">{data.itinerary ? `${data.itinerary.stops.length} 站串联` : data.result.category}</span>
                 <span className="muted">{data.result.address}</span>
+                {!data.itinerary && data.result.openTime ? <span className="muted small">营业 {data.result.openTime}</span> : null}
+                {!data.itinerary && typeof data.result.rating === 'number' ? (
+                  <span className="badge">★ {data.result.rating}</span>
+                ) : null}
+                {!data.itinerary && typeof data.result.costPerPerson === 'number' ? (
+                  <span className="muted small">人均 ¥{data.result.costPerPerson}</span>
+                ) : null}
+                {data.weather ? (
+                  <span className="muted small">
+                    {data.weather.text}
+                    {data.weather.tempC === null ? '' : ` ${data.weather.tempC}℃`}
+                    {data.weather.rainy || data.weather.hot ? '（已偏向室内）' : ''}
+                  </span>
+                ) : null}
+                {data.effort ? <span className="badge">{data.effort.label}</span> : null}
+                {data.ranking && data.ranking.source !== 'default' ? <span className="badge">{data.ranking.label}</span> : null}
+                <span className="muted small">种子 {data.seed}</span>
               </div>
-              <div className="timeline">
-                <div className="tlItem">
-                  <div className="tlK">去</div>
-                  <div className="tlV">{data.result.goMin} 分</div>
+              {!data.itinerary && data.result.photoUrl ? (
+                <img className="poiPhoto" src={data.result.photoUrl} alt={data.result.name} loading="lazy" referrerPolicy="no-referrer" />
+              ) : null}
+              {data.group ? (
+                <div className="itinerary">
+                  {data.group.members.map((m, i) => (
+                    <div key={m.name + i} className="itRow">
+                      <span className="itAt">{m.departAt}</span>
+                      <span className="itDot" style={{ background: LEG_COLORS[i % LEG_COLORS.length] }} />
+                      <span className="itTitle">
+                        {m.name} 出发 · {modeName(m.goMode)} {m.goMin} 分
+                      </span>
+                      <span className="itMin">
+                        回 {m.backMin} 分 · {m.homeAt} 到家
+                      </span>
+                    </div>
+                  ))}
+                  <div className="itRow stop">
+                    <span className="itAt">{data.group.meetAt}</span>
+                    <span className="itTitle">人到齐，一起待到 {data.group.meetEndAt}</span>
+                    <span className="itMin">玩 {data.group.meetMin} 分</span>
+                  </div>
                 </div>
-                <div className="tlItem">
-                  <div className="tlK">玩</div>
-                  <div className="tlV">{data.result.playMin} 分</div>
+              ) : data.itinerary ? (
+                <div className="itinerary">
+                  {itineraryRows(data.itinerary, data.input.startTime).map((r) => (
+                    <div key={r.key} className={r.kind === 'stop' ? 'itRow stop' : 'itRow'}>
+                      <span className="itAt">{r.at}</span>
+                      {r.color ? <span className="itDot" style={{ background: r.color }} /> : null}
+                      <span className="itTitle">{r.title}</span>
+                      <span className="itMin">{r.kind === 'stop' ? `玩 ${r.min} 分` : `${modeName(r.mode ?? data.input.mode)} ${r.min} 分`}</span>
+                    </div>
+                  ))}
                 </div>
-                <div className="tlItem">
-                  <div className="tlK">回</div>
-                  <div className="tlV">{data.result.backMin} 分</div>
+              ) : (
+                <div className="timeline">
+                  <div className="tlItem">
+                    <div className="tlK">去 · {modeName(data.result.goMode)}</div>
+                    <div className="tlV">{data.result.goMin} 分</div>
+                  </div>
+                  <div className="tlItem">
+                    <div className="tlK">玩</div>
+                    <div className="tlV">{data.result.playMin} 分</div>
+                  </div>
+                  <div className="tlItem">
+                    <div className="tlK">
+                      {data.input.end ? '到终点' : '回'} · {modeName(data.result.backMode)}
+                    </div>
+                    <div className="tlV">{data.result.backMin} 分</div>
+                  </div>
                 </div>
-              </div>
+              )}
 
               <div className="block">
                 <div className="blockTitle">为什么是它</div>
@@ -491,19 +1121,122 @@ export default function App() {
                 </div>
               ) : null}
 
+              {data.routing?.rejected.length ? (
+                <div className="block">
+                  <div className="blockTitle">自动换候选（共尝试 {data.routing.tried} 个）</div>
+                  <ul className="list">
+                    {data.routing.rejected.map((x) => (
+                      <li key={x.name}>
+                        {x.name}：{x.reason}
+                      </li>
+                    ))}
+                  </ul>
+                </div>
+              ) : null}
+
+              {data.hoursRejected?.length ? (
+                <div className="block">
+                  <div className="blockTitle">营业时间不合适（已跳过 {data.hoursRejected.length} 个）</div>
+                  <ul className="list">
+                    {data.hoursRejected.map((x) => (
+                      <li key={x.name}>
+                        {x.name}（{x.openTime}）：{x.reason}
+                      </li>
+                    ))}
+                  </ul>
+                </div>
+              ) : null}
+
+              {data.nightSafety ? (
+                <div className="block">
+                  <div className="blockTitle">夜间安全（{data.nightSafety.phase === 'late' ? '深夜' : '天黑后'}）</div>
+                  <ul className="list">
+                    {data.nightSafety.rules.map((r) => (
+                      <li key={r.id}>
+                        {r.effect === 'exclude' ? '剔除' : r.effect === 'penalize' ? '降权' : '加分'}：{r.label}（{r.count} 个）
+                      </li>
+                    ))}
+                    {data.nightSafety.rejected.map((x) => (
+                      <li key={`rej-${x.name}`} className="muted">
+                        已跳过 {x.name}：{x.reason}
+                      </li>
+                    ))}
+                  </ul>
+                </div>
+              ) : null}
+
+              {data.effort?.rejected.length ? (
+                <div className="block">
+                  <div className="blockTitle">不适合「{data.effort.label}」（已跳过 {data.effort.rejected.length} 个）</div>
+                  <ul className="list">
+                    {data.effort.rejected.map((x) => (
+                      <li key={x.name}>
+                        {x.name}：{x.reason}
+                      </li>
+                    ))}
+                  </ul>
+                </div>
+              ) : null}
+
               {data.candidates?.length ? (
                 <div className="block">
                   <div className="blockTitle">Top3 候选（估算）</div>
                   <ul className="list">
                     {data.candidates.map((c, idx) => (
                       <li key={c.location}>
-                        <b>{idx + 1}. {c.name}</b>（{c.category}） · 预估单程 {c.oneWayMinEst ?? '-'} 分 · 预估可停留 {c.playMinEst ?? '-'} 分
+                        <b>{idx + 1}. {c.name}</b>（{c.category}） · {c.travelSource === 'matrix' ? '路网单程' : '预估单程'} {c.oneWayMinEst ?? '-'} 分 · 预估可停留{' '}
+                        {c.playMinEst ?? '-'} 分
+                        {typeof c.rating === 'number' ? ` · ★${c.rating}` : ''}
+                        {typeof c.costPerPerson === 'number' ? ` · 人均¥${c.costPerPerson}` : ''}
                       </li>
                     ))}
                   </ul>
                 </div>
               ) : null}
 
+              {data.debug ? (
+                <details className="block">
+                  <summary className="blockTitle">为什么是它</summary>
+                  <div className="muted small">
+                    策略 {data.debug.strategy} · 意图 {data.debug.intent.primary}
+                    {data.debug.intent.strong ? '（强）' : '（弱）'} · 理想单程 {data.debug.idealOneWay} 分 · 最短停留 {data.debug.minStayMin} 分
+                  </div>
+                  <ul className="list">
+                    <li>
+                      <b>{data.debug.chosen.name}</b>：{scoreLine(data.debug.chosen.score)}
+                    </li>
+                    {data.candidates
+                      ?.filter((c) => c.score && c.name !== data.debug?.chosen.name)
+                      .map((c) => (
+                        <li key={`score-${c.location}`}>
+                          {c.name}：{scoreLine(c.score!)}
+                        </li>
+                      ))}
+                  </ul>
+                  <div className="blockTitle">进入抽签的候选（按权重）</div>
+                  <ul className="list">
+                    {data.debug.ranked.map((r, i) => (
+                      <li key={`ranked-${i}`}>
+                        {i + 1}. {r.name} · 权重 {r.weight}
+                        {r.travelSource === 'matrix' ? ' · 路网' : ''}
+                      </li>
+                    ))}
+                  </ul>
+                  {data.debug.dropped.length ? (
+                    <>
+                      <div className="blockTitle">落选（{data.debug.dropped.length} 个）</div>
+                      <ul className="list">
+                        {data.debug.dropped.map((d, i) => (
+                          <li key={`dropped-${i}`}>
+                            {d.name}：{d.failed.map((x) => `${DROP_FILTER_LABELS[x.filter] ?? x.filter}（${x.detail}）`).join('；')}
+                          </li>
+                        ))}
+                      </ul>
+                    </>
+                  ) : null}
+                </details>
+              ) : null}
+
               {data.reportMarkdown ? (
                 <div className="block">
                   <div className="blockTitle">图文报告</div>
@@ -527,9 +1260,14 @@ export default function App() {
                 <button className="btn" type="button" onClick={onEgg} disabled={eggLoading}>
                   {eggLoading ? '彩蛋生成中…' : '开启彩蛋'}
                 </button>
-                <button className="btn ghost" type="button" onClick={onRecommend} disabled={loading}>
+                <button className="btn ghost" type="button" onClick={() => onRecommend({ reroll: true })} disabled={loading}>
                   再随机一次
                 </button>
+                {shown.length ? (
+                  <button className="btn ghost" type="button" onClick={() => setShown([])} disabled={loading}>
+                    清空已看过（{shown.length}）
+                  </button>
+                ) : null}
               </div>
 
               {eggErr ? <div className="error">{eggErr}</div> : null}
@@ -583,6 +1321,11 @@ export default function App() {
           <div className="panelTitle">
             地图
             {!canDrawMap ? <span className="muted small">（未配置高德 JS Key，暂不显示地图）</span> : null}
+            {canDrawMap && data?.ok && !data.empty && data.isochrone ? (
+              <button className="chip" type="button" onClick={() => setShowIso((v) => !v)}>
+                {showIso ? '隐藏' : '显示'}可达范围（{modeName(data.isochrone.mode)} {data.isochrone.budgetMin} 分）
+              </button>
+            ) : null}
           </div>
           <div id="map" className="map" />
         </section>
@@ -1,21 +1,165 @@
-export type TravelMode = 'walk' | 'bike' | 'drive';
+export type TravelMode = 'walk' | 'bike' | 'drive' | 'transit';
+
+export type PlanKind = 'single' | 'itinerary';
+
+// 体力/无障碍档位：normal=正常，easy=少走路，accessible=轮椅/婴儿车
+export type EffortProfile = 'normal' | 'easy' | 'accessible';
+
+export type Itinerary = {
+  stops: Array<{
+    name: string;
+    category: string;
+    address: string;
+    location: string; // "lng,lat"
+    stayMin: number;
+  }>;
+  // legs[i] 到达 stops[i]；最后一段是回起点
+  legs: Array<{
+    fromName: string;
+    toName: string;
+    from: string;
+    to: string;
+    mode: TravelMode;
+    min: number;
+    polyline: string;
+  }>;
+  travelMin: number;
+  stayMin: number;
+};
+
+// 多人碰头：请求里的每个人（空档不传则用整体的 startTime/endTime）
+export type GroupMemberInput = {
+  name?: string;
+  origin: { lng: number; lat: number };
+  mode: TravelMode;
+  backMode?: TravelMode;
+  startTime?: string;
+  endTime?: string;
+};
+
+// minmax=照顾路上最久的人；total=大家路上总时间最少
+export type Fairness = 'minmax' | 'total';
+
+// 多人碰头结果：departAt 为按“刚好到齐”倒推的建议出发时间（HH:mm）
+export type GroupPlan = {
+  fairness: Fairness;
+  meetAt: string;
+  meetEndAt: string;
+  meetMin: number;
+  maxTravelMin: number;
+  totalTravelMin: number;
+  members: Array<{
+    name: string;
+    origin: { lng: number; lat: number };
+    goMode: TravelMode;
+    backMode: TravelMode;
+    goMin: number;
+    backMin: number;
+    departAt: string;
+    homeAt: string;
+    polyline: string;
+    backPolyline: string;
+    goSummary?: string;
+  }>;
+};
+
+// 夜间安全：phase 为出行时段（dusk=天黑后，late=深夜）；rules 为生效的规则及命中的候选数
+export type NightSafetyLevel = 'off' | 'soft' | 'strict';
+export type NightSafetyInfo = {
+  level: NightSafetyLevel;
+  phase: 'day' | 'dusk' | 'late';
+  rules: Array<{ id: string; label: string; effect: 'exclude' | 'penalize' | 'boost'; count: number }>;
+  rejected: Array<{ name: string; reason: string }>;
+};
+
+// 排序策略：balanced 均衡 / nearby-first 就近优先 / explore-far 走远一点 / intent-strict 严格对口
+export type RankingStrategyName = 'balanced' | 'nearby-first' | 'explore-far' | 'intent-strict';
+
+// 打分明细（debug=true 时返回）：weight = base × factors 各项之积
+export type ScoreBreakdown = {
+  closeness: number;
+  novelty: number;
+  match: number;
+  weights: { closeness: number; novelty: number; match: number };
+  base: number;
+  affinity: number;
+  factors: { affinity: number; hours: number; weather: number; rating: number; comfort: number; night: number };
+  weight: number;
+};
+
+export type DebugInfo = {
+  strategy: RankingStrategyName;
+  idealOneWay: number;
+  minStayMin: number;
+  intent: { primary: string; strong: boolean };
+  chosen: { name: string; score: ScoreBreakdown };
+  ranked: Array<{ name: string; weight: number; travelSource: 'matrix' | 'estimate' }>;
+  // 落选地点及没过的筛选：intent_miss / hours / too_far / isochrone / effort / night / affinity / min_stay / too_close / rank
+  dropped: Array<{ name: string; failed: Array<{ filter: string; detail: string }> }>;
+  // 离线评测用的候选集（scripts/eval-ranking.ts 可直接读整个响应）
+  candidateSet?: unknown;
+};
+
+// 精算换候选记录：tried=实际做了路径规划的候选数，rejected=未能闭环的候选及原因
+export type RoutingAttempts = {
+  tried: number;
+  rejected: Array<{ name: string; reason: string }>;
+};
+
+// 因营业时间被剔除的候选：openTime 为高德营业时间原文
+export type HoursRejection = { name: string; openTime: string; reason: string };
+
+// 起点天气（当天实况 / 未来日期预报）；雨天或高温时排序会偏向室内
+export type WeatherInfo = {
+  source: 'amap' | 'fixture';
+  kind: 'live' | 'forecast';
+  city: string;
+  text: string;
+  tempC: number | null;
+  rainy: boolean;
+  hot: boolean;
+};
+
+// 等时圈：mode 方式单程 budgetMin 分钟内能到的范围（polygon 顶点为 [lng, lat]）
+export type IsochroneResponse = {
+  ok: true;
+  mode: TravelMode;
+  budgetMin: number;
+  origin: string;
+  polygon: Array<[number, number]>;
+  source: 'amap' | 'estimate';
+};
 
 export type RecommendResponse =
   | {
       ok: true;
       empty: true;
       message?: string;
+      seed?: number;
+      routing?: RoutingAttempts;
+      hoursRejected?: HoursRejection[];
     }
   | {
       ok: true;
       empty?: false;
       city: string;
+      seed: number; // 本次使用的随机种子，原样回传即可复现
       input: {
         origin: { lng: number; lat: number };
+        end?: { lng: number; lat: number }; // 单程终点；缺省表示回到起点
         mode: TravelMode;
-        startTime: string;
-        endTime: string;
+        goMode: TravelMode;
+        backMode: TravelMode;
+        startTime: string; // 实际出发时刻 HH:mm（窗口已开始时为“现在”）
+        endTime: string; // HH:mm；跨天时为“次日HH:mm”
+        timezone?: string;
+        startAt?: string; // ISO（带偏移）
+        endAt?: string;
+        departAt?: string;
         availableMin: number;
+        plan?: PlanKind;
+        effort?: EffortProfile;
+        strategy?: RankingStrategyName;
       };
       intent?: {
         primaryIntent: string;
@@ -25,6 +169,26 @@ export type RecommendResponse =
         source: 'rule' | 'glm' | 'manual';
       };
       relaxNotes?: string[];
+      routing?: RoutingAttempts;
+      hoursRejected?: HoursRejection[];
+      weather?: WeatherInfo;
+      // 非正常体力档位时返回：source=manual 手动选 / mood 从偏好推断；rejected 为步行太远或台阶多被剔除的地点
+      effort?: {
+        profile: EffortProfile;
+        label: string;
+        source: 'manual' | 'mood' | 'default';
+        rejected: Array<{ name: string; reason: string }>;
+      };
+      nightSafety?: NightSafetyInfo;
+      // source=request 请求指定 / config 服务端 RANKING_STRATEGY / default 默认 balanced
+      ranking?: { strategy: RankingStrategyName; label: string; source: 'request' | 'config' | 'default' };
+      // 推荐时用到的可达范围（不含多边形，画图时按 mode/budgetMin 调 getIsochrone）
+      isochrone?: {
+        mode: TravelMode;
+        budgetMin: number;
+        source: 'amap' | 'estimate';
+        rejected: Array<{ name: string; reason: string }>;
+      };
       reportMarkdown?: string;
       candidates?: Array<{
         name: string;
@@ -33,21 +197,51 @@ export type RecommendResponse =
         location: string;
         oneWayMinEst?: number;
         playMinEst?: number;
+        travelSource?: 'matrix' | 'estimate'; // matrix=高德路网批量测距，estimate=直线估算
+        rating?: number;
+        costPerPerson?: number;
+        score?: ScoreBreakdown; // debug 时返回
       }>;
+      debug?: DebugInfo;
       result: {
+        id: string; // 高德 POI id（用于“再随机一次”时排除）
         name: string;
         category: string;
         address: string;
         location: string; // "lng,lat"
+        openTime?: string; // 营业时间（高德原文，可能没有）
+        rating?: number; // 高德评分 0-5
+        costPerPerson?: number; // 人均（元）
+        tel?: string;
+        photoUrl?: string;
+        // 串联行程时 goMin/backMin 是第一段和最后一段路、playMin 是各站停留之和（站间路程见 itinerary.legs）
         goMin: number;
         backMin: number;
         playMin: number;
+        goMode: TravelMode;
+        backMode: TravelMode;
         polyline: string; // "lng,lat;lng,lat;..."
         reasons: string[];
         guide: string[];
       };
+      itinerary?: Itinerary;
+      group?: GroupPlan;
     };
 
+type RecommendOk = Extract<RecommendResponse, { empty?: false }>;
+
+// 流式推荐（/api/recommend-stream）的中间阶段，按这个顺序到达；最终结果仍是 RecommendResponse
+export type RecommendStage =
+  | { stage: 'intent'; intent: Omit<NonNullable<RecommendOk['intent']>, 'explain'> }
+  | { stage: 'candidates'; candidates: NonNullable<RecommendOk['candidates']> }
+  | {
+      stage: 'top1';
+      result: Omit<RecommendOk['result'], 'tel' | 'photoUrl' | 'reasons' | 'guide'>;
+      itinerary?: Itinerary;
+      relaxNotes?: string[];
+    }
+  | { stage: 'report'; delta: string }; // 报告正文的增量，依次拼起来
+
 export type EggResponse =
   | { ok: true; eligible: false; message: string }
   | {
@@ -67,13 +261,28 @@ export type EggVerifyResponse = { ok: true; reached: boolean; distanceMeter: num
 
 export async function recommend(params: {
   origin: { lng: number; lat: number };
+  end?: { lng: number; lat: number }; // 单程：玩完直接去这里（不传则回起点）
   mode: TravelMode;
-  startTime: string;
+  goMode?: TravelMode; // 去程方式（默认同 mode）
+  backMode?: TravelMode; // 回程方式（默认同 mode），如骑车去、打车回
+  startTime: string; // "HH:mm" 或 "2026-10-19T17:30"（不带偏移按 timezone 理解）
   endTime: string;
+  timezone?: string; // 默认 Asia/Shanghai
   mood?: string;
   city?: string; // default: 宜昌
   minStayMin?: number; // 最短停留分钟（可选，后端会兜底）
   allowRelax?: boolean; // 默认 true：必要时自动放宽并解释
+  plan?: PlanKind; // 默认 single：单点往返；itinerary：串联 2-3 站
+  seed?: number; // 随机种子（可选）：同样输入 + 同样 seed => 同样结果
+  exclude?: string[]; // 不想再看到的 POI id 或 "lng,lat"
+  minRating?: number; // 最低评分（0-5）；没有评分的地点不受影响
+  maxCostPerPerson?: number; // 人均上限（元）；没有人均的地点不受影响
+  effort?: EffortProfile; // 不传则后端从 mood 推断（“不想走路”“推婴儿车”）
+  group?: GroupMemberInput[]; // 2-6 人碰头；传了就忽略 origin/end/plan
+  fairness?: Fairness;
+  nightSafety?: NightSafetyLevel; // 不传按服务端配置（默认 strict：天黑后剔除江边/偏僻景点）
+  strategy?: RankingStrategyName; // 不传按服务端 RANKING_STRATEGY（默认 balanced）
+  debug?: boolean; // 返回打分明细和落选原因
 }): Promise<RecommendResponse> {
   const resp = await fetch('/api/recommend', {
     method: 'POST',
@@ -87,6 +296,64 @@ export async function recommend(params: {
   return resp.json();
 }
 
+// 同 recommend，但边算边回调 onStage（意图 → 候选 → Top1 → 报告逐字），最后返回完整结果。
+// 服务端在第一阶段前就结束（参数错误、多人碰头等）时回的是普通 JSON，这里一并处理。
+export async function recommendStream(
+  params: Parameters<typeof recommend>[0],
+  onStage: (stage: RecommendStage) => void
+): Promise<RecommendResponse> {
+  const resp = await fetch('/api/recommend-stream', {
+    method: 'POST',
+    headers: { 'content-type': 'application/json' },
+    body: JSON.stringify(params),
+  });
+  if (!resp.ok) {
+    const text = await resp.text().catch(() => '');
+    throw new Error(`API error ${resp.status}: ${text || resp.statusText}`);
+  }
+  if (!resp.body || !resp.headers.get('content-type')?.includes('ndjson')) return resp.json();
+
+  const reader = resp.body.pipeThrough(new TextDecoderStream()).getReader();
+  let buf = '';
+  for (;;) {
+    const { value, done } = await reader.read();
+    if (done) break;
+    buf += value;
+    let nl: number;
+    while ((nl = buf.indexOf('\n')) !== -1) {
+      const line = buf.slice(0, nl).trim();
+      buf = buf.slice(nl + 1);
+      if (!line) continue;
+      const event = JSON.parse(line) as RecommendStage | { stage: 'done'; status: number; body: RecommendResponse };
+      if (event.stage !== 'done') {
+        onStage(event);
+        continue;
+      }
+      if (event.status !== 200) throw new Error(`API error ${event.status}: ${JSON.stringify(event.body)}`);
+      return event.body;
+    }
+  }
+  throw new Error('连接中断，没有收到完整结果，请再试一次');
+}
+
+export async function getIsochrone(params: {
+  origin: { lng: number; lat: number };
+  mode: TravelMode;
+  minutes: number;
+}): Promise<IsochroneResponse> {
+  const qs = new URLSearchParams({
+    origin: `${params.origin.lng},${params.origin.lat}`,
+    mode: params.mode,
+    minutes: String(params.minutes),
+  });
+  const resp = await fetch(`/api/isochrone?${qs.toString()}`);
+  if (!resp.ok) {
+    const text = await resp.text().catch(() => '');
+    throw new Error(`API error ${resp.status}: ${text || resp.statusText}`);
+  }
+  return resp.json();
+}
+
 export async function getEgg(params: {
   mode: TravelMode;
   startTime: string;